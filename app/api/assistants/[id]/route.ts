@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Assistant, Conversation } from "@/lib/db/models";
+import { parseAssistantInput } from "@/lib/assistants";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid assistant ID format" }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const assistant = await Assistant.findOne({ _id: id, userId });
+
+    if (!assistant) {
+      return NextResponse.json(
+        { error: "Assistant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(assistant);
+
+  } catch (error) {
+    console.error("Error fetching assistant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid assistant ID format" }, { status: 400 });
+    }
+
+    // Only update the fields that were sent
+    let input;
+    try {
+      input = parseAssistantInput(await req.json(), false);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : "Invalid assistant" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const assistant = await Assistant.findOneAndUpdate(
+      { _id: id, userId },
+      input,
+      { new: true, runValidators: true }
+    );
+
+    if (!assistant) {
+      return NextResponse.json(
+        { error: "Assistant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(assistant);
+
+  } catch (error) {
+    console.error("Error updating assistant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid assistant ID format" }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const assistant = await Assistant.findOneAndDelete({ _id: id, userId });
+
+    if (!assistant) {
+      return NextResponse.json(
+        { error: "Assistant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Existing chats keep their history and settings but stop using the persona
+    await Conversation.updateMany({ userId, assistantId: id }, { $unset: { assistantId: "" } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting assistant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Assistant } from "@/lib/db/models";
+import { parseAssistantInput } from "@/lib/assistants";
+
+export const dynamic = 'force-dynamic';
+
+// List the user's assistants
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const assistants = await Assistant.find({ userId })
+      .sort({ updatedAt: -1 })
+      .select("_id name description modelSettings starterPrompts files.id files.name files.type updatedAt createdAt");
+
+    return NextResponse.json(assistants);
+
+  } catch (error) {
+    console.error("Error fetching assistants:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create an assistant
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let input;
+    try {
+      input = parseAssistantInput(await req.json(), true);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : "Invalid assistant" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const assistant = new Assistant({ userId, ...input });
+    await assistant.save();
+
+    return NextResponse.json(assistant, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating assistant:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
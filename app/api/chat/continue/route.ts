@@ -0,0 +1,142 @@
+import { NextRequest } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Assistant, Conversation, Message, Project, User, type IMessage } from "@/lib/db/models";
+import { buildSystemPrompt } from "@/lib/ai/instructions";
+import { getModelInfo, getProvider, resolveModelSettings } from "@/lib/ai/registry";
+import { generationService, SSE_HEADERS } from "@/lib/services/generation";
+import { conversationSummaryService } from "@/lib/services/summary";
+import { extendTemporaryChat } from "@/lib/temporary-chats";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+const CONTINUE_INSTRUCTION =
+  "Continue your previous response exactly where it left off. Do not repeat any of it or add a preamble.";
+
+// Extend a stopped or truncated assistant message in place
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const { messageId } = await req.json();
+
+    if (!messageId || !Types.ObjectId.isValid(messageId)) {
+      return new Response("Valid message ID is required", { status: 400 });
+    }
+
+    await connectDB();
+
+    const assistantMessage = await Message.findOne({ _id: messageId, userId, role: "assistant" });
+    if (!assistantMessage) {
+      return new Response("Message not found", { status: 404 });
+    }
+
+    if (generationService.isRunning(messageId) || assistantMessage.metadata?.status === "streaming") {
+      return new Response("Message is still being generated", { status: 409 });
+    }
+
+    const conversation = await Conversation.findOne({ _id: assistantMessage.conversationId, userId });
+    if (!conversation) {
+      return new Response("Conversation not found", { status: 404 });
+    }
+
+    // Temporary chats stay alive while in use
+    if (conversation.temporary) {
+      await extendTemporaryChat(conversation);
+      await conversation.save();
+    }
+
+    // Rebuild the history leading to this message by following parent links,
+    // loading the conversation's messages once rather than one per ancestor
+    const conversationMessages: IMessage[] = await Message.find({
+      conversationId: assistantMessage.conversationId,
+      userId,
+    });
+    const messagesById = new Map(conversationMessages.map(msg => [msg._id.toString(), msg]));
+
+    const history: IMessage[] = [];
+    const visited = new Set<string>();
+    let parentId = assistantMessage.parentId;
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const parent = messagesById.get(parentId);
+      if (!parent) break;
+      history.unshift(parent);
+      parentId = parent.parentId;
+    }
+
+    const lastUserMessage = history.filter(msg => msg.role === "user").pop();
+    if (!lastUserMessage) {
+      return new Response("No user message found to continue from", { status: 400 });
+    }
+
+    // Keep following the user's custom instructions
+    const user = await User.findOne({ clerkId: userId });
+
+    // Conversations started from an assistant use its instructions and reference files
+    const assistant = conversation.assistantId
+      ? await Assistant.findOne({ _id: conversation.assistantId, userId })
+      : null;
+
+    // Chats filed under a project get its shared instructions and files
+    const project = conversation.projectId
+      ? await Project.findOne({ _id: conversation.projectId, userId })
+      : null;
+
+    // Continue with the conversation's current model settings
+    const chatSettings = resolveModelSettings(conversation.modelSettings);
+    const chatProvider = getProvider(chatSettings.provider);
+
+    // The partial answer goes last so the model picks up after it
+    const { messages, usage: contextUsage } = await conversationSummaryService.buildContext({
+      conversation,
+      history: [...history, assistantMessage],
+      extraMessages: [{ role: "user", content: CONTINUE_INSTRUCTION }],
+      chatSettings,
+      chatProvider,
+      contextWindow: getModelInfo(chatSettings)?.contextWindow,
+      systemPrompt: buildSystemPrompt(user?.customInstructions, assistant, project),
+    });
+
+    const previousContent = assistantMessage.content || "";
+
+    await Message.updateOne(
+      { _id: messageId, userId },
+      { $set: { "metadata.status": "streaming" }, $unset: { "metadata.finishReason": "" } }
+    );
+
+    const stream = generationService.start({
+      messageId,
+      conversationId: conversation._id.toString(),
+      userId,
+      initialContent: previousContent,
+      metadata: {
+        conversationId: conversation._id.toString(),
+        messageId,
+        userMessageId: lastUserMessage._id.toString(),
+        provider: chatSettings.provider,
+        model: chatSettings.model,
+        continued: true,
+        contextUsage,
+      },
+      generate: (abortSignal) => chatProvider.streamChatResponse(messages, {
+        model: chatSettings.model,
+        temperature: chatSettings.temperature,
+        maxTokens: chatSettings.maxTokens,
+        topP: chatSettings.topP,
+        abortSignal,
+      }),
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+
+  } catch (error) {
+    console.error("Error continuing response:", error);
+
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -2,9 +2,14 @@ import { NextRequest } from "next/server";
 import { getAuth } from "@clerk/nextjs/server";
 import { currentUser } from "@clerk/nextjs/server";
 import connectDB from "@/lib/db/mongodb";
-import { User, Conversation, Message } from "@/lib/db/models";
-import { streamChatResponse, manageContextWindow } from "@/lib/ai/openai";
+import { Assistant, Project, User, Conversation, Message } from "@/lib/db/models";
+import { buildSystemPrompt } from "@/lib/ai/instructions";
+import { toMultimodalMessages } from "@/lib/ai/messages";
+import { getModelInfo, getProvider, resolveModelSettings } from "@/lib/ai/registry";
 import { MemoryManager } from "@/lib/memory/mem0";
+import { extendTemporaryChat } from "@/lib/temporary-chats";
+import { generationService, SSE_HEADERS } from "@/lib/services/generation";
+import { conversationSummaryService } from "@/lib/services/summary";
 
 export const dynamic = 'force-dynamic';
 
@@ -15,7 +20,7 @@ export async function POST(req: NextRequest) {
       return new Response("Unauthorized", { status: 401 });
     }
 
-    const { conversationId, activePath } = await req.json();
+    const { conversationId, activePath, modelSettings } = await req.json();
 
     if (!conversationId) {
       return new Response("Conversation ID is required", { status: 400 });
@@ -48,12 +53,17 @@ export async function POST(req: NextRequest) {
       return new Response("Conversation not found", { status: 404 });
     }
 
+    // Allow regenerating with a different model, and remember the choice
+    if (modelSettings) {
+      conversation.modelSettings = resolveModelSettings(modelSettings);
+    }
+
+    // Temporary chats stay alive while in use
+    await extendTemporaryChat(conversation);
+
     // Get conversation history for context (use provided activePath or conversation's activePath)
     const pathToUse = activePath || conversation.activePath;
-    
-    console.log("Regenerate - pathToUse:", pathToUse);
-    console.log("Regenerate - conversation.activePath:", conversation.activePath);
-    
+
     // Get all messages for this conversation to ensure we have the full context
     let conversationMessages = await Message.find({
       conversationId: conversation._id.toString(),
@@ -70,129 +80,76 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    console.log("Regenerate - found messages:", conversationMessages.length);
-    console.log("Regenerate - message details:", conversationMessages.map(msg => ({
-      id: msg._id,
-      role: msg.role,
-      branchIndex: msg.branchIndex,
-      content: msg.content?.substring(0, 30)
-    })));
-
     if (!conversationMessages || conversationMessages.length === 0) {
-      console.log("Regenerate - No conversation messages found");
       return new Response("No conversation messages found", { status: 400 });
     }
 
     // Get the last user message
     const lastUserMessage = conversationMessages.filter(msg => msg.role === "user").pop();
     if (!lastUserMessage) {
-      console.log("Regenerate - No user message found");
       return new Response("No user message found to regenerate from", { status: 400 });
     }
-    
-    console.log("Regenerate - lastUserMessage:", {
-      id: lastUserMessage._id,
-      role: lastUserMessage.role,
-      branchIndex: lastUserMessage.branchIndex,
-      content: lastUserMessage.content?.substring(0, 50)
-    });
 
     // Convert to the format expected by the AI service
-    const messages = conversationMessages
-      .filter(msg => msg.content && msg.content.trim().length > 0) // Filter out empty messages
-      .map(msg => {
-        // Build content for multimodal support
-        let content: any = msg.content.trim();
-        
-        // Add file content if files are attached
-        if (msg.files && msg.files.length > 0) {
-          const contentParts: any[] = [];
-          
-          // Add the text content first
-          if (msg.content.trim()) {
-            contentParts.push({
-              type: 'text',
-              text: msg.content.trim()
-            });
-          }
-          
-          // Add file content - handle images and files differently
-          for (const file of msg.files) {
-            if (file.type.startsWith('image/')) {
-              // For images, add as image_url content for multimodal processing
-              contentParts.push({
-                type: 'image_url',
-                image_url: {
-                  url: file.url,
-                  detail: 'high'
-                }
-              });
-              
-              // Also add OCR text if available as additional context
-              if (file.analysis?.text && file.analysis.text.trim()) {
-                contentParts.push({
-                  type: 'text',
-                  text: `[Image: ${file.name}]\nExtracted text from image:\n${file.analysis.text}`
-                });
-              }
-            } else {
-              // For non-image files, add as text content only
-              const fileText = file.analysis?.extractedText || file.analysis?.text || file.analysis?.summary || '';
-              if (fileText && fileText.trim().length > 0) {
-                contentParts.push({
-                  type: 'text',
-                  text: `[File: ${file.name}]\n\n${fileText}`
-                });
-              } else {
-                contentParts.push({
-                  type: 'text',
-                  text: `[File: ${file.name}]`
-                });
-              }
-            }
-          }
-          
-          // If we have multiple content parts, use array format
-          if (contentParts.length > 1) {
-            content = contentParts;
-          } else if (contentParts.length === 1) {
-            content = contentParts[0].text;
-          }
-        }
-        
-        return {
-          role: msg.role as "user" | "assistant" | "system",
-          content: content
-        };
-      });
+    const messages = toMultimodalMessages(conversationMessages);
 
     if (messages.length === 0) {
       return new Response("No valid messages found for regeneration", { status: 400 });
     }
 
-    // Manage context window
-    const managedMessages = manageContextWindow(messages);
+    // Conversations started from an assistant use its instructions and reference files
+    const assistant = conversation.assistantId
+      ? await Assistant.findOne({ _id: conversation.assistantId, userId })
+      : null;
+
+    // Chats filed under a project get its shared instructions and files
+    const project = conversation.projectId
+      ? await Project.findOne({ _id: conversation.projectId, userId })
+      : null;
+
+    // Use the model and generation parameters saved on the conversation
+    const chatSettings = resolveModelSettings(conversation.modelSettings);
+    const chatProvider = getProvider(chatSettings.provider);
 
     // Get memory context if available
+    // Temporary chats neither use nor create memories
+    const memoryEnabled = user.memoryEnabled !== false && !conversation.temporary;
     let memoryContext = "";
-    try {
-      const memoryManager = new MemoryManager(userId);
-      const memories = await memoryManager.searchMemories(lastUserMessage.content, 3);
-      memoryContext = memories.map(m => m.content).join("\n");
-    } catch (memoryError) {
-      console.warn("Memory retrieval failed:", memoryError);
+    let memoryIds: string[] = [];
+    if (memoryEnabled) {
+      try {
+        const memoryManager = new MemoryManager(userId);
+        const memories = await memoryManager.searchMemories(lastUserMessage.content);
+        memoryContext = memories.map(m => m.content).join("\n");
+        memoryIds = memories.map(m => m.id);
+      } catch (memoryError) {
+        console.warn("Memory retrieval failed:", memoryError);
+      }
     }
 
+    // Fit the history into the model's context window, summarizing turns that no longer fit
+    const { messages: managedMessages, usage: contextUsage } = await conversationSummaryService.buildContext({
+      conversation,
+      history: conversationMessages,
+      chatSettings,
+      chatProvider,
+      contextWindow: getModelInfo(chatSettings)?.contextWindow,
+      context: memoryContext,
+      systemPrompt: buildSystemPrompt(user.customInstructions, assistant, project),
+    });
+
     // Create assistant message placeholder (don't save yet)
     const assistantMessage = new Message({
       userId,
       conversationId: conversation._id.toString(),
       role: "assistant",
-      content: "Generating response...", // Temporary content to pass validation
+      content: "",
       timestamp: new Date(),
       parentId: lastUserMessage._id.toString(),
       branchIndex: (lastUserMessage.branchIndex || 0) + 1,
       isActive: true,
+      metadata: { provider: chatSettings.provider, model: chatSettings.model, status: "streaming", memoryIds },
+      expiresAt: conversation.expiresAt,
     });
     
     // Validate the message before saving
@@ -209,86 +166,47 @@ export async function POST(req: NextRequest) {
     const newActivePath = [...basePath, assistantMessage._id.toString()];
     conversation.activePath = newActivePath;
     await conversation.save();
-    
-    console.log("Regenerate - updated activePath:", newActivePath);
-
-    // Create a readable stream for Server-Sent Events
-    const encoder = new TextEncoder();
-    let fullResponse = "";
 
-    const stream = new ReadableStream({
-      async start(controller) {
+    // The generation runs on its own so the client can reattach if the connection drops
+    const stream = generationService.start({
+      messageId: assistantMessage._id.toString(),
+      conversationId: conversation._id.toString(),
+      userId,
+      metadata: {
+        conversationId: conversation._id.toString(),
+        messageId: assistantMessage._id.toString(),
+        userMessageId: lastUserMessage._id.toString(),
+        provider: chatSettings.provider,
+        model: chatSettings.model,
+        contextUsage,
+        memoryIds,
+      },
+      generate: (abortSignal) => chatProvider.streamChatResponse(managedMessages, {
+        model: chatSettings.model,
+        temperature: chatSettings.temperature,
+        maxTokens: chatSettings.maxTokens,
+        topP: chatSettings.topP,
+        context: memoryContext,
+        abortSignal,
+      }),
+      onComplete: async (fullResponse) => {
+        // Remember durable facts about the user from this exchange
+        if (!memoryEnabled) return;
         try {
-          // Send initial metadata
-          const initialData = {
-            type: "metadata",
+          const memoryManager = new MemoryManager(userId);
+          await memoryManager.processExchange({
+            userMessage: lastUserMessage.content,
+            assistantResponse: fullResponse,
             conversationId: conversation._id.toString(),
             messageId: assistantMessage._id.toString(),
-            userMessageId: lastUserMessage._id.toString(),
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(initialData)}\n\n`));
-
-          // Stream the AI response
-          for await (const chunk of streamChatResponse(managedMessages, memoryContext)) {
-            fullResponse += chunk;
-            
-            // Send each chunk as SSE
-            const chunkData = {
-              type: "chunk",
-              content: chunk,
-            };
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunkData)}\n\n`));
-          }
-
-          // Update the assistant message with the full response
-          assistantMessage.content = fullResponse;
-          await assistantMessage.save();
-
-          // Update conversation timestamp
-          conversation.updatedAt = new Date();
-          await conversation.save();
-
-          // Store in memory if available
-          try {
-            const memoryManager = new MemoryManager(userId);
-            await memoryManager.addMemory(fullResponse, {
-              conversationId: conversation._id.toString(),
-              messageId: assistantMessage._id.toString(),
-              userMessage: lastUserMessage.content
-            });
-          } catch (memoryError) {
-            console.warn("Memory storage failed:", memoryError);
-          }
-
-          // Send completion signal
-          const completionData = {
-            type: "done",
-            fullResponse,
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(completionData)}\n\n`));
-          controller.close();
-
-        } catch (error) {
-          console.error("Streaming error:", error);
-          
-          // Send error as SSE
-          const errorData = {
-            type: "error",
-            error: "Failed to generate response",
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorData)}\n\n`));
-          controller.close();
+          }, { provider: chatProvider, model: chatSettings.model });
+        } catch (memoryError) {
+          console.warn("Memory update failed:", memoryError);
         }
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    return new Response(stream, { headers: SSE_HEADERS });
 
   } catch (error) {
     console.error("Error in regenerate API:", error);
@@ -1,9 +1,15 @@
 import { NextRequest } from "next/server";
 import { getAuth, currentUser } from "@clerk/nextjs/server";
-import { streamChatResponse, manageContextWindow } from "@/lib/ai/openai";
+import { buildSystemPrompt } from "@/lib/ai/instructions";
+import { toMultimodalMessages } from "@/lib/ai/messages";
+import { getModelInfo, getProvider, resolveModelSettings } from "@/lib/ai/registry";
 import connectDB from "@/lib/db/mongodb";
-import { Conversation, Message, User } from "@/lib/db/models";
+import { Assistant, Conversation, Message, Project, User } from "@/lib/db/models";
 import { MemoryManager } from "@/lib/memory/mem0";
+import { extendTemporaryChat } from "@/lib/temporary-chats";
+import { generationService, SSE_HEADERS } from "@/lib/services/generation";
+import { conversationSummaryService } from "@/lib/services/summary";
+import { parseMessageFiles } from "@/lib/validation";
 import { Types } from "mongoose";
 
 // Force dynamic rendering to avoid caching issues
@@ -17,12 +23,19 @@ export async function POST(req: NextRequest) {
       return new Response("Unauthorized", { status: 401 });
     }
 
-    const { message, conversationId, files } = await req.json();
+    const { message, conversationId, files, modelSettings, temporary } = await req.json();
    
-    if (!message) {
+    if (typeof message !== "string" || !message.trim()) {
       return new Response("Message is required", { status: 400 });
     }
 
+    let parsedFiles;
+    try {
+      parsedFiles = parseMessageFiles(files || []);
+    } catch (validationError) {
+      return new Response(validationError instanceof Error ? validationError.message : "Invalid files", { status: 400 });
+    }
+
     await connectDB();
 
     // Get Clerk user data
@@ -71,12 +84,21 @@ export async function POST(req: NextRequest) {
         userId,
         title: message.substring(0, 50) + (message.length > 50 ? "..." : ""),
         activePath: [],
+        temporary: temporary === true,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
       await conversation.save();
     }
 
+    // Temporary chats stay alive while in use
+    await extendTemporaryChat(conversation);
+
+    // Persist a model change made from the model picker
+    if (modelSettings) {
+      conversation.modelSettings = resolveModelSettings(modelSettings);
+    }
+
     // Get the last message in the active path to determine parent and branch index
     let lastActiveMessage = null;
     if (conversation.activePath && conversation.activePath.length > 0) {
@@ -96,10 +118,8 @@ export async function POST(req: NextRequest) {
       parentId: lastActiveMessage?._id.toString(),
       branchIndex: lastActiveMessage ? lastActiveMessage.branchIndex + 1 : 0,
       isActive: true,
-      files: (files || []).map((file: any) => ({
-        ...file,
-        uploadedAt: new Date()
-      })),
+      expiresAt: conversation.expiresAt,
+      files: parsedFiles,
     });
     await userMessage.save();
 
@@ -126,101 +146,65 @@ export async function POST(req: NextRequest) {
     }
 
     // Convert to the format expected by the AI service
-    const messages = conversationMessages
-      .filter(msg => msg.content && msg.content.trim().length > 0) // Filter out empty messages
-      .map(msg => {
-        // Build content for multimodal support
-        let content: any = msg.content.trim();
-        
-        // Add file content if files are attached
-        if (msg.files && msg.files.length > 0) {
-          const contentParts: any[] = [];
-          
-          // Add the text content first
-          if (msg.content.trim()) {
-            contentParts.push({
-              type: 'text',
-              text: msg.content.trim()
-            });
-          }
-          
-          // Add file content - handle images and files differently
-          for (const file of msg.files) {
-            if (file.type.startsWith('image/')) {
-              // For images, add as image_url content for multimodal processing
-              contentParts.push({
-                type: 'image_url',
-                image_url: {
-                  url: file.url,
-                  detail: 'high'
-                }
-              });
-              
-              // Also add OCR text if available as additional context
-              if (file.analysis?.text && file.analysis.text.trim()) {
-                contentParts.push({
-                  type: 'text',
-                  text: `[Image: ${file.name}]\nExtracted text from image:\n${file.analysis.text}`
-                });
-              }
-            } else {
-              // For non-image files, add as text content only
-              const fileText = file.analysis?.extractedText || file.analysis?.text || file.analysis?.summary || '';
-              if (fileText && fileText.trim().length > 0) {
-                contentParts.push({
-                  type: 'text',
-                  text: `[File: ${file.name}]\n\n${fileText}`
-                });
-              } else {
-                contentParts.push({
-                  type: 'text',
-                  text: `[File: ${file.name}]`
-                });
-              }
-            }
-          }
-          
-          // If we have multiple content parts, use array format
-          if (contentParts.length > 1) {
-            content = contentParts;
-          } else if (contentParts.length === 1) {
-            content = contentParts[0].text;
-          }
-        }
-        
-        return {
-          role: msg.role as "user" | "assistant" | "system",
-          content: content
-        };
-      });
+    const messages = toMultimodalMessages(conversationMessages);
 
     if (messages.length === 0) {
       return new Response("No valid messages found for context", { status: 400 });
     }
 
-    // Manage context window
-    const managedMessages = manageContextWindow(messages);
+    // Conversations started from an assistant use its instructions and reference files
+    const assistant = conversation.assistantId
+      ? await Assistant.findOne({ _id: conversation.assistantId, userId })
+      : null;
+
+    // Chats filed under a project get its shared instructions and files
+    const project = conversation.projectId
+      ? await Project.findOne({ _id: conversation.projectId, userId })
+      : null;
+
+    // Use the model and generation parameters saved on the conversation
+    const chatSettings = resolveModelSettings(conversation.modelSettings);
+    const chatProvider = getProvider(chatSettings.provider);
 
     // Get memory context if available
+    // Temporary chats neither use nor create memories
+    const memoryEnabled = user.memoryEnabled !== false && !conversation.temporary;
     let memoryContext = "";
-    try {
-      const memoryManager = new MemoryManager(userId);
-      const memories = await memoryManager.searchMemories(message, 3);
-      memoryContext = memories.map(m => m.content).join("\n");
-    } catch (memoryError) {
-      console.warn("Memory retrieval failed:", memoryError);
+    let memoryIds: string[] = [];
+    if (memoryEnabled) {
+      try {
+        const memoryManager = new MemoryManager(userId);
+        const memories = await memoryManager.searchMemories(message);
+        memoryContext = memories.map(m => m.content).join("\n");
+        memoryIds = memories.map(m => m.id);
+      } catch (memoryError) {
+        console.warn("Memory retrieval failed:", memoryError);
+      }
     }
 
+    // Fit the history into the model's context window, summarizing turns that no longer fit
+    const { messages: managedMessages, usage: contextUsage } = await conversationSummaryService.buildContext({
+      conversation,
+      history: conversationMessages,
+      chatSettings,
+      chatProvider,
+      contextWindow: getModelInfo(chatSettings)?.contextWindow,
+      context: memoryContext,
+      systemPrompt: buildSystemPrompt(user.customInstructions, assistant, project),
+    });
+
     // Create assistant message placeholder
     const assistantMessage = new Message({
       userId,
       conversationId: conversation._id.toString(),
       role: "assistant",
-      content: "Generating response...", // Temporary content to pass validation
+      content: "",
       timestamp: new Date(),
       parentId: userMessage._id.toString(),
       branchIndex: userMessage.branchIndex + 1,
       isActive: true,
+      metadata: { provider: chatSettings.provider, model: chatSettings.model, status: "streaming", memoryIds },
+      expiresAt: conversation.expiresAt,
     });
     
     // Validate the message before saving
@@ -236,83 +220,46 @@ export async function POST(req: NextRequest) {
     conversation.activePath.push(assistantMessage._id.toString());
     await conversation.save();
 
-    // Create a readable stream for Server-Sent Events
-    const encoder = new TextEncoder();
-    let fullResponse = "";
-
-    const stream = new ReadableStream({
-      async start(controller) {
+    // The generation runs on its own so the client can reattach if the connection drops
+    const stream = generationService.start({
+      messageId: assistantMessage._id.toString(),
+      conversationId: conversation._id.toString(),
+      userId,
+      metadata: {
+        conversationId: conversation._id.toString(),
+        messageId: assistantMessage._id.toString(),
+        userMessageId: userMessage._id.toString(),
+        provider: chatSettings.provider,
+        model: chatSettings.model,
+        contextUsage,
+        memoryIds,
+      },
+      generate: (abortSignal) => chatProvider.streamChatResponse(managedMessages, {
+        model: chatSettings.model,
+        temperature: chatSettings.temperature,
+        maxTokens: chatSettings.maxTokens,
+        topP: chatSettings.topP,
+        context: memoryContext,
+        abortSignal,
+      }),
+      onComplete: async (fullResponse) => {
+        // Remember durable facts about the user from this exchange
+        if (!memoryEnabled) return;
         try {
-          // Send initial metadata
-          const initialData = {
-            type: "metadata",
+          const memoryManager = new MemoryManager(userId);
+          await memoryManager.processExchange({
+            userMessage: message,
+            assistantResponse: fullResponse,
             conversationId: conversation._id.toString(),
             messageId: assistantMessage._id.toString(),
-            userMessageId: userMessage._id.toString(),
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(initialData)}\n\n`));
-
-          // Stream the AI response
-          for await (const chunk of streamChatResponse(managedMessages, memoryContext)) {
-            fullResponse += chunk;
-            
-            // Send each chunk as SSE
-            const chunkData = {
-              type: "chunk",
-              content: chunk,
-            };
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunkData)}\n\n`));
-          }
-
-          // Update the assistant message with the full response
-          assistantMessage.content = fullResponse;
-          await assistantMessage.save();
-
-          // Update conversation timestamp
-          conversation.updatedAt = new Date();
-          await conversation.save();
-
-          // Store in memory if available
-          try {
-            const memoryManager = new MemoryManager(userId);
-            await memoryManager.addMemory(fullResponse, {
-              conversationId: conversation._id.toString(),
-              messageId: assistantMessage._id.toString(),
-              userMessage: message
-            });
-          } catch (memoryError) {
-            console.warn("Memory storage failed:", memoryError);
-          }
-
-          // Send completion signal
-          const completionData = {
-            type: "done",
-            fullResponse,
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(completionData)}\n\n`));
-          controller.close();
-
-        } catch (error) {
-          console.error("Streaming error:", error);
-          
-          // Send error as SSE
-          const errorData = {
-            type: "error",
-            error: "Failed to generate response",
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorData)}\n\n`));
-          controller.close();
+          }, { provider: chatProvider, model: chatSettings.model });
+        } catch (memoryError) {
+          console.warn("Memory update failed:", memoryError);
         }
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    return new Response(stream, { headers: SSE_HEADERS });
 
   } catch (error) {
     console.error("Error in chat API:", error);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Message } from "@/lib/db/models";
+import { generationService } from "@/lib/services/generation";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+// Stop an in-flight generation; the partial response is kept as "stopped"
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { messageId } = await req.json();
+
+    if (!messageId || !Types.ObjectId.isValid(messageId)) {
+      return NextResponse.json(
+        { error: "Valid message ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (generationService.stop(messageId, userId)) {
+      return NextResponse.json({ success: true });
+    }
+
+    // Not running on this server - settle a message left mid-stream by a restart
+    await connectDB();
+    await Message.updateOne(
+      { _id: messageId, userId, role: "assistant", "metadata.status": "streaming" },
+      { $set: { "metadata.status": "stopped" } }
+    );
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error stopping generation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
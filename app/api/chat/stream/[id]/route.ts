@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Message } from "@/lib/db/models";
+import { formatSSEEvent, generationService, SSE_HEADERS } from "@/lib/services/generation";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+// Reattach to a generation by assistant message ID, resuming after Last-Event-ID
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return new Response("Invalid message ID format", { status: 400 });
+    }
+
+    // EventSource sends Last-Event-ID on reconnect; fetch clients may use the query string
+    const lastEventId = Number(
+      req.headers.get("last-event-id") || req.nextUrl.searchParams.get("lastEventId") || 0
+    ) || 0;
+
+    const stream = generationService.subscribe(id, userId, lastEventId);
+    if (stream) {
+      return new Response(stream, { headers: SSE_HEADERS });
+    }
+
+    // No longer buffered here: answer from what was saved
+    await connectDB();
+
+    const message = await Message.findOne({ _id: id, userId, role: "assistant" });
+    if (!message) {
+      return new Response("Message not found", { status: 404 });
+    }
+
+    let status = message.metadata?.status || "completed";
+    if (status === "streaming") {
+      // The server restarted mid-generation; keep the partial text as stopped
+      status = "stopped";
+      await Message.updateOne({ _id: id, userId }, { $set: { "metadata.status": status } });
+    }
+
+    const body =
+      formatSSEEvent({ type: "metadata", conversationId: message.conversationId, messageId: id }) +
+      formatSSEEvent({
+        type: "done",
+        fullResponse: message.content,
+        status,
+        finishReason: message.metadata?.finishReason,
+      });
+
+    return new Response(body, { headers: SSE_HEADERS });
+
+  } catch (error) {
+    console.error("Error resuming generation:", error);
+
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, Message } from "@/lib/db/models";
+import { Types } from "mongoose";
+
+// Force dynamic rendering to avoid caching issues
+export const dynamic = 'force-dynamic';
+
+// Continue the shown branch up to a message in a new chat: { messageId }.
+// The messages (and their files) are copied, so the two chats grow apart
+// without touching each other's trees.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { messageId } = await req.json();
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: "Invalid conversation ID format" },
+        { status: 400 }
+      );
+    }
+    if (!messageId || typeof messageId !== "string") {
+      return NextResponse.json(
+        { error: "messageId is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const source = await Conversation.findOne({ _id: id, userId });
+    if (!source) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    // Temporary chats are meant to leave nothing behind
+    if (source.temporary) {
+      return NextResponse.json(
+        { error: "Temporary chats can't be branched" },
+        { status: 400 }
+      );
+    }
+
+    const messageIndex = source.activePath.indexOf(messageId);
+    if (messageIndex === -1) {
+      return NextResponse.json(
+        { error: "Message is not in the shown branch" },
+        { status: 404 }
+      );
+    }
+
+    const pathIds: string[] = source.activePath.slice(0, messageIndex + 1);
+    const found = await Message.find({
+      conversationId: id,
+      userId,
+      _id: { $in: pathIds }
+    });
+    const byId = new Map(found.map(message => [message._id.toString(), message]));
+    const messages = pathIds.map(pathId => byId.get(pathId)).filter(message => message !== undefined);
+
+    if (messages.length !== pathIds.length) {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+    if (messages.some(message => message.metadata?.status === "streaming")) {
+      return NextResponse.json(
+        { error: "Wait for the response to finish before branching" },
+        { status: 409 }
+      );
+    }
+
+    const conversation = new Conversation({
+      userId,
+      title: `Branch · ${source.title}`,
+      activePath: [],
+      modelSettings: source.modelSettings,
+      assistantId: source.assistantId,
+      projectId: source.projectId,
+      forkedFrom: { conversationId: id, messageId },
+    });
+
+    // Copy the branch as a single chain, keeping timestamps so it reads the same
+    const idMap = new Map<string, string>();
+    const copies = messages.map((message, index) => {
+      const copyId = new Types.ObjectId();
+      idMap.set(message._id.toString(), copyId.toString());
+      return {
+        _id: copyId,
+        conversationId: conversation._id.toString(),
+        userId,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        edited: message.edited,
+        parentId: index > 0 ? idMap.get(messages[index - 1]._id.toString()) : undefined,
+        branchIndex: index,
+        isActive: true,
+        metadata: message.metadata,
+        files: message.files,
+        versions: message.versions,
+      };
+    });
+    conversation.activePath = copies.map(copy => copy._id.toString());
+
+    // A summary of the copied turns still applies once it points at the copies
+    const summaryIds = source.summary?.messageIds.map((summaryId: string) => idMap.get(summaryId));
+    if (source.summary && summaryIds && summaryIds.every(Boolean)) {
+      conversation.summary = {
+        content: source.summary.content,
+        messageIds: summaryIds as string[],
+        updatedAt: source.summary.updatedAt,
+      };
+    }
+
+    await Message.insertMany(copies);
+    await conversation.save();
+
+    return NextResponse.json(conversation);
+
+  } catch (error) {
+    console.error("Error branching conversation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuth } from "@clerk/nextjs/server";
 import connectDB from "@/lib/db/mongodb";
-import { Conversation, Message } from "@/lib/db/models";
+import { Conversation, Message, Project } from "@/lib/db/models";
+import { resolveModelSettings } from "@/lib/ai/registry";
+import { deletionService } from "@/lib/services/deletion";
+import { Types } from "mongoose";
 
 // Force dynamic rendering to avoid caching issues
 export const dynamic = 'force-dynamic';
@@ -75,11 +78,29 @@ export async function PUT(
     await connectDB();
 
     const { id } = await params;
-    const { title } = await req.json();
+    const { title, modelSettings, projectId } = await req.json();
+
+    // Only update the fields that were sent
+    const updateData: any = { updatedAt: new Date() };
+    if (title !== undefined) {
+      updateData.title = title;
+    }
+    if (modelSettings !== undefined) {
+      updateData.modelSettings = resolveModelSettings(modelSettings);
+    }
+    // Move into a project, or out of it with null
+    if (projectId === null) {
+      updateData.$unset = { projectId: "" };
+    } else if (projectId !== undefined) {
+      if (!(Types.ObjectId.isValid(projectId) && await Project.exists({ _id: projectId, userId }))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+      updateData.projectId = projectId;
+    }
 
     const conversation = await Conversation.findOneAndUpdate(
       { _id: id, userId },
-      { title, updatedAt: new Date() },
+      updateData,
       { new: true }
     );
 
@@ -127,6 +148,9 @@ export async function DELETE(
       );
     }
 
+    // Messages, their files and the memories learned here are removed in the background
+    await deletionService.enqueue(id, userId);
+
     return NextResponse.json({ success: true });
 
   } catch (error) {
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, Message } from "@/lib/db/models";
+import { buildMessageTree, resolveBranchPath } from "@/lib/message-tree";
+import { summaryCoversPath } from "@/lib/services/summary";
+
+export const dynamic = 'force-dynamic';
+
+// Get every message of the conversation as a tree, with children and sibling positions
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { id } = await params;
+
+    const conversation = await Conversation.findOne({
+      _id: id,
+      userId,
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const messages = await Message.find({
+      conversationId: id,
+      userId,
+    }).select("parentId role content timestamp");
+
+    const tree = buildMessageTree(messages);
+
+    return NextResponse.json({
+      conversationId: id,
+      activePath: conversation.activePath,
+      ...tree,
+    });
+
+  } catch (error) {
+    console.error("Error fetching message tree:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Switch to the branch that runs through a message, e.g. a sibling at a fork or a search result
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { messageId } = await req.json();
+
+    if (!messageId || typeof messageId !== "string") {
+      return NextResponse.json(
+        { error: "messageId is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findOne({
+      _id: id,
+      userId,
+    });
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const allMessages = await Message.find({
+      conversationId: id,
+      userId,
+    }).select("parentId role content timestamp");
+
+    const tree = buildMessageTree(allMessages);
+    if (!tree.nodes[messageId]) {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+
+    const newActivePath = resolveBranchPath(tree, messageId, conversation.activePath);
+
+    // Update conversation active path
+    conversation.activePath = newActivePath;
+    // A summary of another branch's turns no longer applies
+    if (conversation.summary && !summaryCoversPath(conversation.summary, newActivePath)) {
+      conversation.summary = undefined;
+    }
+    await conversation.save();
+
+    // Update message active status
+    await Message.updateMany(
+      { conversationId: id, userId },
+      { isActive: false }
+    );
+    await Message.updateMany(
+      {
+        conversationId: id,
+        userId,
+        _id: { $in: newActivePath }
+      },
+      { isActive: true }
+    );
+
+    // Get the active messages for the new path
+    const activeMessages = await Message.find({
+      conversationId: id,
+      userId,
+      _id: { $in: newActivePath }
+    }).sort({ branchIndex: 1 });
+
+    return NextResponse.json({
+      success: true,
+      activePath: newActivePath,
+      messages: activeMessages
+    });
+
+  } catch (error) {
+    console.error("Error switching branch:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
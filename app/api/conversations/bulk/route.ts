@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, Project } from "@/lib/db/models";
+import { deletionService } from "@/lib/services/deletion";
+import { Types } from "mongoose";
+
+// Force dynamic rendering to avoid caching issues
+export const dynamic = 'force-dynamic';
+
+const MAX_BULK_SIZE = 100;
+
+const BULK_ACTIONS = ["delete", "archive", "unarchive", "pin", "unpin", "move"] as const;
+type BulkAction = typeof BULK_ACTIONS[number];
+
+const UPDATES: Record<Exclude<BulkAction, "delete" | "move">, Record<string, any>> = {
+  // An archived chat can't stay pinned to the top of a list it isn't in
+  archive: { archived: true, pinned: false },
+  unarchive: { archived: false },
+  pin: { pinned: true },
+  unpin: { pinned: false },
+};
+
+// Apply one action to several conversations: { ids, action, projectId? }
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { ids, action, projectId } = await req.json();
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${BULK_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_SIZE) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${MAX_BULK_SIZE} conversations` },
+        { status: 400 }
+      );
+    }
+    if (!ids.every(id => typeof id === "string" && Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { error: "Invalid conversation ID format" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const filter = { _id: { $in: ids }, userId };
+
+    if (action === "delete") {
+      const deletedIds = (await Conversation.find(filter).select("_id")).map(conv => conv._id.toString());
+      await Conversation.deleteMany({ _id: { $in: deletedIds }, userId });
+
+      // Messages, their files and the memories learned in them are removed in the background
+      for (const id of deletedIds) {
+        await deletionService.enqueue(id, userId);
+      }
+
+      return NextResponse.json({ deleted: deletedIds.length });
+    }
+
+    let update: Record<string, any>;
+    if (action === "move") {
+      // Move into a project, or out of it with null
+      if (projectId === null || projectId === undefined) {
+        update = { $unset: { projectId: "" } };
+      } else if (Types.ObjectId.isValid(projectId) && await Project.exists({ _id: projectId, userId })) {
+        update = { projectId };
+      } else {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+    } else {
+      update = UPDATES[action as keyof typeof UPDATES];
+    }
+
+    // Organizing chats isn't activity, so keep `updatedAt` and their place in the list
+    await Conversation.updateMany(filter, update, { timestamps: false });
+
+    const conversations = await Conversation.find(filter)
+      .select("_id title projectId pinned archived updatedAt createdAt");
+
+    return NextResponse.json({ conversations });
+
+  } catch (error) {
+    console.error("Error updating conversations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { DeletionJob } from "@/lib/db/models";
+import { deletionService } from "@/lib/services/deletion";
+
+// Force dynamic rendering to avoid caching issues
+export const dynamic = 'force-dynamic';
+
+// List cleanup jobs for deleted conversations that haven't finished
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const jobs = await DeletionJob.find({ userId, status: { $ne: "completed" } })
+      .sort({ createdAt: -1 })
+      .select("conversationId status attempts lastError nextAttemptAt createdAt");
+
+    return NextResponse.json(jobs);
+
+  } catch (error) {
+    console.error("Error fetching deletion jobs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Retry failed cleanup jobs, along with any others that are due
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const retried = await deletionService.runDue(userId, true);
+
+    return NextResponse.json({ retried });
+
+  } catch (error) {
+    console.error("Error retrying deletion jobs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
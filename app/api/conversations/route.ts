@@ -1,11 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuth } from "@clerk/nextjs/server";
 import connectDB from "@/lib/db/mongodb";
-import { Conversation } from "@/lib/db/models";
+import { Assistant, Conversation, Project } from "@/lib/db/models";
+import { resolveModelSettings } from "@/lib/ai/registry";
+import { extendTemporaryChat } from "@/lib/temporary-chats";
+import { Types } from "mongoose";
 
 // Force dynamic rendering to avoid caching issues
 export const dynamic = 'force-dynamic';
 
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// Cursors point just past the last conversation of a page: "<updatedAt ms>_<id>".
+// The ID breaks ties between conversations updated in the same millisecond.
+function encodeCursor(conversation: { _id: unknown; updatedAt: Date }): string {
+  return `${conversation.updatedAt.getTime()}_${String(conversation._id)}`;
+}
+
+function decodeCursor(cursor: string): { updatedAt: Date; id: string } | null {
+  const [time, id] = cursor.split("_");
+  const updatedAt = new Date(Number(time));
+  if (!id || isNaN(updatedAt.getTime()) || !Types.ObjectId.isValid(id)) return null;
+  return { updatedAt, id };
+}
+
+// List conversations, most recently updated first, one page at a time.
+// Chats filed under a project are only listed with `?projectId=`, and archived
+// chats only with `?archived=true`. `?pinned=true|false` splits off pinned chats.
 export async function GET(req: NextRequest) {
   try {
     const { userId } = getAuth(req);
@@ -13,14 +35,59 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const cursorParam = req.nextUrl.searchParams.get("cursor");
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const projectId = req.nextUrl.searchParams.get("projectId");
+    if (projectId && !Types.ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: "Invalid project ID format" }, { status: 400 });
+    }
+
+    const limit = Math.min(
+      Math.max(parseInt(req.nextUrl.searchParams.get("limit") || "", 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
     await connectDB();
 
-    const conversations = await Conversation.find({ userId })
-      .sort({ updatedAt: -1 })
-      .limit(50)
-      .select("_id title updatedAt createdAt");
+    const archived = req.nextUrl.searchParams.get("archived") === "true";
+    const pinned = req.nextUrl.searchParams.get("pinned");
+    // Temporary chats are never listed
+    const filter: Record<string, any> = {
+      userId,
+      temporary: { $ne: true },
+      archived: archived ? true : { $ne: true },
+    };
+    // The archive lists chats from every project unless one is asked for
+    if (projectId || !archived) {
+      filter.projectId = projectId || null;
+    }
+    if (pinned === "true" || pinned === "false") {
+      filter.pinned = pinned === "true" ? true : { $ne: true };
+    }
+    if (cursor) {
+      filter.$or = [
+        { updatedAt: { $lt: cursor.updatedAt } },
+        { updatedAt: cursor.updatedAt, _id: { $lt: new Types.ObjectId(cursor.id) } },
+      ];
+    }
+
+    // One extra tells us whether there is another page
+    const conversations = await Conversation.find(filter)
+      .sort({ updatedAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .select("_id title modelSettings assistantId projectId pinned archived updatedAt createdAt");
 
-    return NextResponse.json(conversations);
+    const hasMore = conversations.length > limit;
+    const page = conversations.slice(0, limit);
+
+    return NextResponse.json({
+      conversations: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    });
 
   } catch (error) {
     console.error("Error fetching conversations:", error);
@@ -40,14 +107,35 @@ export async function POST(req: NextRequest) {
 
     await connectDB();
 
-    const { title } = await req.json();
+    const { title, modelSettings, assistantId, projectId, temporary } = await req.json();
+
+    // Starting from an assistant uses its model unless one was picked explicitly
+    let assistant = null;
+    if (assistantId) {
+      if (Types.ObjectId.isValid(assistantId)) {
+        assistant = await Assistant.findOne({ _id: assistantId, userId });
+      }
+      if (!assistant) {
+        return NextResponse.json({ error: "Assistant not found" }, { status: 404 });
+      }
+    }
+
+    if (projectId && !(Types.ObjectId.isValid(projectId) && await Project.exists({ _id: projectId, userId }))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
 
     const conversation = new Conversation({
       userId,
       title: title || "New Chat",
       activePath: [],
+      modelSettings: resolveModelSettings(modelSettings || assistant?.modelSettings),
+      assistantId: assistant?._id.toString(),
+      projectId: projectId || undefined,
+      temporary: temporary === true,
     });
 
+    // Temporary chats expire if the client never deletes them
+    await extendTemporaryChat(conversation);
     await conversation.save();
 
     return NextResponse.json(conversation);
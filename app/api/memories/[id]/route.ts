@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import { MemoryManager, MEMORY_MAX_LENGTH } from "@/lib/memory/mem0";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+// Edit a memory's text and/or pin it
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid memory ID format" }, { status: 400 });
+    }
+
+    const { content, pinned } = await req.json();
+
+    if (content !== undefined) {
+      if (typeof content !== "string" || !content.trim()) {
+        return NextResponse.json({ error: "Memory content is required" }, { status: 400 });
+      }
+      if (content.length > MEMORY_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Memories are limited to ${MEMORY_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+    if (pinned !== undefined && typeof pinned !== "boolean") {
+      return NextResponse.json({ error: "Pinned must be true or false" }, { status: 400 });
+    }
+
+    const memoryManager = new MemoryManager(userId);
+    let memory = await memoryManager.getMemory(id);
+
+    if (!memory) {
+      return NextResponse.json(
+        { error: "Memory not found" },
+        { status: 404 }
+      );
+    }
+
+    if (content !== undefined && content.trim() !== memory.content) {
+      memory = await memoryManager.updateMemory(id, content.trim(), { ...memory.metadata, source: "user" });
+    }
+    if (pinned !== undefined) {
+      memory = await memoryManager.setPinned(id, pinned) || memory;
+    }
+
+    return NextResponse.json(memory);
+
+  } catch (error) {
+    console.error("Error updating memory:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid memory ID format" }, { status: 400 });
+    }
+
+    const memoryManager = new MemoryManager(userId);
+    const deleted = await memoryManager.deleteMemory(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Memory not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
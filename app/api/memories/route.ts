@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import { MemoryManager, MEMORY_MAX_LENGTH } from "@/lib/memory/mem0";
+import { Types } from "mongoose";
+
+export const dynamic = 'force-dynamic';
+
+const MAX_MEMORIES = 500;
+
+// List the user's memories, optionally filtered by text or by ID
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = req.nextUrl.searchParams.get("q") || undefined;
+    const ids = req.nextUrl.searchParams.get("ids");
+
+    const memoryManager = new MemoryManager(userId);
+
+    // The memories used for a response, which may since have been deleted
+    if (ids !== null) {
+      const memoryIds = ids.split(",").filter(id => Types.ObjectId.isValid(id)).slice(0, MAX_MEMORIES);
+      const memories = await memoryManager.getMemoriesByIds(memoryIds);
+      return NextResponse.json({ memories });
+    }
+
+    const memories = await memoryManager.getMemories(MAX_MEMORIES, query);
+
+    return NextResponse.json({ memories });
+
+  } catch (error) {
+    console.error("Error fetching memories:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a memory by hand
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { content } = await req.json();
+
+    if (typeof content !== "string" || !content.trim()) {
+      return NextResponse.json({ error: "Memory content is required" }, { status: 400 });
+    }
+    if (content.length > MEMORY_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Memories are limited to ${MEMORY_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const memoryManager = new MemoryManager(userId);
+    const memory = await memoryManager.addMemory(content.trim(), { source: "user" });
+
+    return NextResponse.json(memory, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating memory:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Forget everything
+export async function DELETE(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const memoryManager = new MemoryManager(userId);
+    const deletedCount = await memoryManager.deleteAllMemories();
+
+    return NextResponse.json({ success: true, deletedCount });
+
+  } catch (error) {
+    console.error("Error deleting memories:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuth } from "@clerk/nextjs/server";
 import connectDB from "@/lib/db/mongodb";
-import { Message } from "@/lib/db/models";
+import { Conversation, Message } from "@/lib/db/models";
+import { buildMessageTree, resolveBranchPath } from "@/lib/message-tree";
+import { summaryCoversPath } from "@/lib/services/summary";
+import { parseMessageFiles } from "@/lib/validation";
 import { Types } from "mongoose";
 
 // Force dynamic rendering to avoid caching issues
 export const dynamic = 'force-dynamic';
 
+// Editing a user message adds a sibling with the new text and switches to it,
+// so the original message and the replies to it stay reachable as a branch.
+// Assistant messages are edited in place.
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -22,13 +28,23 @@ export async function PUT(
     const { id } = await params;
     const { content, files } = await req.json();
 
-    if (!content) {
+    if (typeof content !== "string" || !content.trim()) {
       return NextResponse.json(
         { error: "Content is required" },
         { status: 400 }
       );
     }
 
+    let parsedFiles;
+    try {
+      parsedFiles = files !== undefined ? parseMessageFiles(files) : undefined;
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : "Invalid files" },
+        { status: 400 }
+      );
+    }
+
     // Validate ObjectId format
     if (!Types.ObjectId.isValid(id)) {
       return NextResponse.json(
@@ -37,6 +53,74 @@ export async function PUT(
       );
     }
 
+    const original = await Message.findOne({ _id: new Types.ObjectId(id), userId });
+    if (!original) {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+
+    if (original.role === "user") {
+      const conversation = await Conversation.findOne({ _id: original.conversationId, userId });
+      if (!conversation) {
+        return NextResponse.json(
+          { error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      const edited = new Message({
+        userId,
+        conversationId: original.conversationId,
+        role: "user",
+        content,
+        timestamp: new Date(),
+        edited: true,
+        parentId: original.parentId,
+        branchIndex: original.branchIndex,
+        isActive: true,
+        files: parsedFiles || original.files || [],
+        expiresAt: original.expiresAt,
+      });
+      await edited.save();
+
+      // The new branch ends at the edited message until a reply is generated
+      const allMessages = await Message.find({
+        conversationId: original.conversationId,
+        userId,
+      }).select("parentId role content timestamp");
+      const activePath = resolveBranchPath(buildMessageTree(allMessages), edited._id.toString());
+
+      conversation.activePath = activePath;
+      // A summary of the replaced turns no longer applies
+      if (conversation.summary && !summaryCoversPath(conversation.summary, activePath)) {
+        conversation.summary = undefined;
+      }
+      await conversation.save();
+
+      await Message.updateMany(
+        { conversationId: original.conversationId, userId },
+        { isActive: false }
+      );
+      await Message.updateMany(
+        { conversationId: original.conversationId, userId, _id: { $in: activePath } },
+        { isActive: true }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: {
+          id: edited._id,
+          content: edited.content,
+          edited: edited.edited,
+          files: edited.files,
+          updatedAt: edited.updatedAt
+        },
+        activePath,
+      });
+    }
+
     // Build update object
     const updateData: any = {
       content,
@@ -45,15 +129,12 @@ export async function PUT(
     };
 
     // Only update files if they are provided
-    if (files !== undefined) {
-      updateData.files = files.map((file: any) => ({
-        ...file,
-        uploadedAt: file.uploadedAt || new Date()
-      }));
+    if (parsedFiles) {
+      updateData.files = parsedFiles;
     }
 
     const message = await Message.findOneAndUpdate(
-      { _id: new Types.ObjectId(id), userId },
+      { _id: original._id, userId },
       updateData,
       { new: true }
     );
@@ -65,6 +146,12 @@ export async function PUT(
       );
     }
 
+    // The cached conversation summary may quote the old text
+    await Conversation.updateOne(
+      { _id: message.conversationId, userId, "summary.messageIds": id },
+      { $unset: { summary: "" } }
+    );
+
     return NextResponse.json({
       success: true,
       message: {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import { listAvailableProviders, resolveModelSettings } from "@/lib/ai/registry";
+
+// Force dynamic rendering to avoid caching issues
+export const dynamic = 'force-dynamic';
+
+// List configured providers and their models for the model picker
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      providers: listAvailableProviders(),
+      defaults: resolveModelSettings(),
+    });
+
+  } catch (error) {
+    console.error("Error fetching models:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Project } from "@/lib/db/models";
+import { parseProjectInput } from "@/lib/projects";
+
+export const dynamic = 'force-dynamic';
+
+// List the user's projects
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const projects = await Project.find({ userId })
+      .sort({ updatedAt: -1 })
+      .select("_id name files.id files.name files.type updatedAt createdAt");
+
+    return NextResponse.json(projects);
+
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a project
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let input;
+    try {
+      input = parseProjectInput(await req.json(), true);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : "Invalid project" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const project = new Project({ userId, ...input });
+    await project.save();
+
+    return NextResponse.json(project, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, Message } from "@/lib/db/models";
+import type { Types } from "mongoose";
+import { buildSnippet, parseSearchTerms } from "@/lib/search";
+
+export const dynamic = 'force-dynamic';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_MESSAGE_HITS = 100;
+const MAX_CONVERSATIONS = 20;
+const MAX_MATCHES_PER_CONVERSATION = 3;
+
+// Text search hits with their relevance projected as `score`
+interface MessageHit {
+  _id: Types.ObjectId;
+  conversationId: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  score: number;
+}
+
+interface TitleHit {
+  _id: Types.ObjectId;
+  score: number;
+}
+
+interface SearchMatch {
+  messageId: string;
+  role: "user" | "assistant";
+  snippet: ReturnType<typeof buildSnippet>;
+  timestamp: Date;
+  // False when the message is on a branch that isn't currently shown
+  inActivePath: boolean;
+}
+
+interface SearchResult {
+  conversationId: string;
+  title: ReturnType<typeof buildSnippet>;
+  updatedAt: Date;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Search conversation titles and message text, grouped by conversation
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = (req.nextUrl.searchParams.get("q") || "").trim();
+    if (!query) {
+      return NextResponse.json({ results: [] });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search is limited to ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const textScore = { score: { $meta: "textScore" } };
+    const [messageHits, titleHits] = await Promise.all([
+      Message.find({ userId, $text: { $search: query } }, textScore)
+        .sort(textScore)
+        .limit(MAX_MESSAGE_HITS)
+        .select("conversationId role content timestamp")
+        .lean<MessageHit[]>(),
+      Conversation.find({ userId, temporary: { $ne: true }, $text: { $search: query } }, textScore)
+        .sort(textScore)
+        .limit(MAX_CONVERSATIONS)
+        .select("_id")
+        .lean<TitleHit[]>(),
+    ]);
+
+    // Temporary chats are excluded here, which also drops their messages
+    const conversationIds = new Set<string>([
+      ...messageHits.map(msg => msg.conversationId),
+      ...titleHits.map(conv => conv._id.toString()),
+    ]);
+    const conversations = await Conversation.find({
+      _id: { $in: [...conversationIds] },
+      userId,
+      temporary: { $ne: true },
+    }).select("title activePath updatedAt");
+
+    const terms = parseSearchTerms(query);
+    const results = new Map<string, SearchResult>();
+    for (const conversation of conversations) {
+      results.set(conversation._id.toString(), {
+        conversationId: conversation._id.toString(),
+        title: buildSnippet(conversation.title, terms),
+        updatedAt: conversation.updatedAt,
+        score: 0,
+        matches: [],
+      });
+    }
+
+    // A title match counts as much as the best message match
+    for (const conversation of titleHits) {
+      const result = results.get(conversation._id.toString());
+      if (result) result.score = Math.max(result.score, conversation.score || 0);
+    }
+
+    for (const message of messageHits) {
+      const result = results.get(message.conversationId);
+      if (!result) continue;
+
+      result.score = Math.max(result.score, message.score || 0);
+      if (result.matches.length < MAX_MATCHES_PER_CONVERSATION) {
+        const activePath: string[] = conversations
+          .find(conv => conv._id.toString() === message.conversationId)?.activePath || [];
+        result.matches.push({
+          messageId: message._id.toString(),
+          role: message.role,
+          snippet: buildSnippet(message.content, terms),
+          timestamp: message.timestamp,
+          inActivePath: activePath.includes(message._id.toString()),
+        });
+      }
+    }
+
+    const ranked = [...results.values()]
+      .sort((a, b) => b.score - a.score || b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, MAX_CONVERSATIONS);
+
+    return NextResponse.json({ results: ranked });
+
+  } catch (error) {
+    console.error("Error searching conversations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
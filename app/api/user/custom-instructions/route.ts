@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth, currentUser } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { User } from "@/lib/db/models";
+import { CUSTOM_INSTRUCTIONS_MAX_LENGTH } from "@/lib/ai/instructions";
+
+export const dynamic = 'force-dynamic';
+
+function toResponse(instructions?: { aboutMe?: string; responseStyle?: string; enabled?: boolean }) {
+  return {
+    aboutMe: instructions?.aboutMe || "",
+    responseStyle: instructions?.responseStyle || "",
+    enabled: instructions?.enabled !== false,
+  };
+}
+
+// Get the user's custom instructions
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const user = await User.findOne({ clerkId: userId }).select("customInstructions");
+
+    return NextResponse.json({ customInstructions: toResponse(user?.customInstructions) });
+
+  } catch (error) {
+    console.error("Error fetching custom instructions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the user's custom instructions
+export async function PUT(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { aboutMe, responseStyle, enabled } = await req.json();
+
+    for (const value of [aboutMe, responseStyle]) {
+      if (value !== undefined && typeof value !== "string") {
+        return NextResponse.json({ error: "Instructions must be text" }, { status: 400 });
+      }
+      if (typeof value === "string" && value.length > CUSTOM_INSTRUCTIONS_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Instructions are limited to ${CUSTOM_INSTRUCTIONS_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    await connectDB();
+
+    // Get or create user in MongoDB
+    let user = await User.findOne({ clerkId: userId });
+    if (!user) {
+      const clerkUser = await currentUser();
+      if (!clerkUser) {
+        return NextResponse.json({ error: "User not found in Clerk" }, { status: 401 });
+      }
+      user = new User({
+        clerkId: userId,
+        email: clerkUser.emailAddresses[0]?.emailAddress || "no-email@example.com",
+        firstName: clerkUser.firstName || "User",
+        lastName: clerkUser.lastName || "Name",
+        imageUrl: clerkUser.imageUrl || "",
+      });
+    }
+
+    user.customInstructions = {
+      aboutMe: typeof aboutMe === "string" ? aboutMe.trim() : user.customInstructions?.aboutMe,
+      responseStyle: typeof responseStyle === "string" ? responseStyle.trim() : user.customInstructions?.responseStyle,
+      enabled: typeof enabled === "boolean" ? enabled : user.customInstructions?.enabled !== false,
+    };
+    await user.save();
+
+    return NextResponse.json({ customInstructions: toResponse(user.customInstructions) });
+
+  } catch (error) {
+    console.error("Error saving custom instructions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth, currentUser } from "@clerk/nextjs/server";
+import connectDB from "@/lib/db/mongodb";
+import { User } from "@/lib/db/models";
+
+export const dynamic = 'force-dynamic';
+
+// Whether memories are used and created in the user's chats
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const user = await User.findOne({ clerkId: userId }).select("memoryEnabled");
+
+    return NextResponse.json({ enabled: user?.memoryEnabled !== false });
+
+  } catch (error) {
+    console.error("Error fetching memory setting:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Turn memory on or off. Turning it off keeps existing memories.
+export async function PUT(req: NextRequest) {
+  try {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { enabled } = await req.json();
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json({ error: "Enabled must be true or false" }, { status: 400 });
+    }
+
+    await connectDB();
+
+    // Get or create user in MongoDB
+    let user = await User.findOne({ clerkId: userId });
+    if (!user) {
+      const clerkUser = await currentUser();
+      if (!clerkUser) {
+        return NextResponse.json({ error: "User not found in Clerk" }, { status: 401 });
+      }
+      user = new User({
+        clerkId: userId,
+        email: clerkUser.emailAddresses[0]?.emailAddress || "no-email@example.com",
+        firstName: clerkUser.firstName || "User",
+        lastName: clerkUser.lastName || "Name",
+        imageUrl: clerkUser.imageUrl || "",
+      });
+    }
+
+    user.memoryEnabled = enabled;
+    await user.save();
+
+    return NextResponse.json({ enabled: user.memoryEnabled });
+
+  } catch (error) {
+    console.error("Error saving memory setting:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
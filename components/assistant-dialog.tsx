@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { X, Loader2, Plus, Trash2, Paperclip, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ModelPicker } from "@/components/model-picker";
+import type { ModelSettings } from "@/lib/ai/types";
+
+const MAX_STARTER_PROMPTS = 6;
+
+interface AssistantFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  cloudinaryUrl?: string;
+  uploadcareId?: string;
+  analysis?: {
+    text?: string;
+    extractedText?: string;
+    summary?: string;
+  };
+}
+
+interface Assistant {
+  _id: string;
+  name: string;
+  description?: string;
+  instructions?: string;
+  modelSettings?: ModelSettings;
+  starterPrompts?: string[];
+  files?: AssistantFile[];
+}
+
+interface AssistantDialogProps {
+  isOpen: boolean;
+  // Assistant to edit; omit to create a new one
+  assistantId?: string | null;
+  onClose: () => void;
+  onSaved: (assistant: Assistant) => void;
+  onDeleted?: (assistantId: string) => void;
+}
+
+const emptyAssistant: Omit<Assistant, "_id"> = {
+  name: "",
+  description: "",
+  instructions: "",
+  starterPrompts: [""],
+  files: [],
+};
+
+export function AssistantDialog({ isOpen, assistantId, onClose, onSaved, onDeleted }: AssistantDialogProps) {
+  const [draft, setDraft] = useState<Omit<Assistant, "_id">>(emptyAssistant);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the assistant being edited, or start from a blank form
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    if (!assistantId) {
+      setDraft(emptyAssistant);
+      return;
+    }
+
+    const fetchAssistant = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/assistants/${assistantId}`);
+        if (response.ok) {
+          const data: Assistant = await response.json();
+          setDraft({
+            name: data.name,
+            description: data.description || "",
+            instructions: data.instructions || "",
+            modelSettings: data.modelSettings?.model ? data.modelSettings : undefined,
+            starterPrompts: data.starterPrompts?.length ? data.starterPrompts : [""],
+            files: data.files || [],
+          });
+        } else {
+          setError('Failed to load assistant');
+        }
+      } catch (error) {
+        console.error('Error fetching assistant:', error);
+        setError('Failed to load assistant');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchAssistant();
+  }, [isOpen, assistantId]);
+
+  const updateStarterPrompt = (index: number, value: string) => {
+    const starterPrompts = [...(draft.starterPrompts || [])];
+    starterPrompts[index] = value;
+    setDraft({ ...draft, starterPrompts });
+  };
+
+  const removeStarterPrompt = (index: number) => {
+    const starterPrompts = (draft.starterPrompts || []).filter((_, i) => i !== index);
+    setDraft({ ...draft, starterPrompts: starterPrompts.length ? starterPrompts : [""] });
+  };
+
+  const uploadFile = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Upload failed');
+      }
+
+      const uploaded: AssistantFile = {
+        id: result.file.id,
+        name: result.file.name,
+        type: result.file.type,
+        size: result.file.size,
+        url: result.file.url,
+        cloudinaryUrl: result.file.cloudinaryUrl,
+        uploadcareId: result.file.uploadcareId,
+        analysis: result.file.analysis || result.analysis,
+      };
+      setDraft(prev => ({ ...prev, files: [...(prev.files || []), uploaded] }));
+    } catch (error) {
+      console.error('Error uploading reference file:', error);
+      setError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const saveAssistant = async () => {
+    if (!draft.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(assistantId ? `/api/assistants/${assistantId}` : '/api/assistants', {
+        method: assistantId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...draft,
+          modelSettings: draft.modelSettings || null,
+          starterPrompts: (draft.starterPrompts || []).filter(prompt => prompt.trim()),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data);
+        onClose();
+      } else {
+        setError(data.error || 'Failed to save assistant');
+      }
+    } catch (error) {
+      console.error('Error saving assistant:', error);
+      setError('Failed to save assistant');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteAssistant = async () => {
+    if (!assistantId || !confirm('Delete this assistant? Existing chats are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/assistants/${assistantId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        onDeleted?.(assistantId);
+        onClose();
+      } else {
+        setError('Failed to delete assistant');
+      }
+    } catch (error) {
+      console.error('Error deleting assistant:', error);
+      setError('Failed to delete assistant');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const starterPrompts = draft.starterPrompts || [""];
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-800">
+            {assistantId ? 'Edit assistant' : 'Create assistant'}
+          </h2>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-4 px-6 py-4">
+            <label className="block">
+              <span className="block text-sm text-gray-700 mb-1">Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                maxLength={100}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name your assistant"
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm text-gray-700 mb-1">Description</span>
+              <input
+                type="text"
+                value={draft.description}
+                maxLength={500}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="What does this assistant do?"
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm text-gray-700 mb-1">Instructions</span>
+              <Textarea
+                value={draft.instructions}
+                maxLength={8000}
+                onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                placeholder="What should this assistant do? How should it behave? What should it avoid?"
+                className="min-h-[120px] text-gray-800"
+              />
+            </label>
+
+            <div>
+              <span className="block text-sm text-gray-700 mb-1">Default model</span>
+              <div className="flex items-center gap-2">
+                <ModelPicker
+                  value={draft.modelSettings || null}
+                  onChange={(settings) => setDraft({ ...draft, modelSettings: settings })}
+                />
+                {draft.modelSettings && (
+                  <Button variant="ghost" size="sm" onClick={() => setDraft({ ...draft, modelSettings: undefined })}>
+                    Use app default
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm text-gray-700 mb-1">Conversation starters</span>
+              <div className="space-y-2">
+                {starterPrompts.map((prompt, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={prompt}
+                      maxLength={300}
+                      onChange={(e) => updateStarterPrompt(index, e.target.value)}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeStarterPrompt(index)} title="Remove">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {starterPrompts.length < MAX_STARTER_PROMPTS && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 text-gray-600"
+                    onClick={() => setDraft({ ...draft, starterPrompts: [...starterPrompts, ""] })}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add starter
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm text-gray-700 mb-1">Knowledge</span>
+              <div className="space-y-1">
+                {(draft.files || []).map((file) => (
+                  <div key={file.id} className="flex items-center gap-2 rounded-md border border-gray-200 px-3 py-2">
+                    <FileText className="h-4 w-4 text-gray-500" />
+                    <span className="flex-1 truncate text-sm text-gray-800">{file.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setDraft({ ...draft, files: (draft.files || []).filter(f => f.id !== file.id) })}
+                      title="Remove file"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                accept=".txt,.md,.pdf,.json,.csv,image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-1 gap-2 text-gray-600"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                Upload files
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex items-center justify-between gap-2 pt-2">
+              {assistantId ? (
+                <Button variant="ghost" className="gap-2 text-red-500 hover:text-red-600" onClick={deleteAssistant}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button onClick={saveAssistant} disabled={isSaving || isUploading}>
+                  {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
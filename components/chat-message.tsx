@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { UsedMemories } from "@/components/used-memories";
 import { 
   Copy, 
   ThumbsUp, 
@@ -17,7 +18,10 @@ import {
   ChevronLeft,
   ChevronRight,
   Download,
-  Eye
+  Eye,
+  Square,
+  FastForward,
+  GitBranchPlus
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -45,6 +49,9 @@ interface Message {
     }[];
   }[];
   currentVersionIndex?: number;
+  status?: "streaming" | "completed" | "stopped" | "error";
+  finishReason?: "stop" | "length" | "content-filter" | "other";
+  memoryIds?: string[];
 }
 
 interface UploadedFile {
@@ -69,12 +76,14 @@ interface ChatMessageProps {
   isStreaming?: boolean;
   onEdit?: (messageId: string, newContent: string) => Promise<void>;
   onRegenerate?: (messageId: string) => void;
+  onContinue?: (messageId: string) => void;
   onSwitchVersion?: (messageId: string, versionIndex: number) => void;
   onCopy?: (content: string) => void;
   onLike?: (messageId: string) => void;
   onDislike?: (messageId: string) => void;
   onMessageUpdate?: (messageId: string, newContent: string) => void;
-  onRegenerateAfterEdit?: (messageId: string) => void;
+  // Continue the conversation up to this message in a new chat
+  onBranch?: (messageId: string) => void;
   // Pagination props
   showPagination?: boolean;
   currentPage?: number;
@@ -88,12 +97,13 @@ export function ChatMessage({
   isStreaming = false,
   onEdit,
   onRegenerate,
+  onContinue,
   onSwitchVersion,
   onCopy,
   onLike,
   onDislike,
   onMessageUpdate,
-  onRegenerateAfterEdit,
+  onBranch,
   showPagination = false,
   currentPage = 1,
   totalPages = 1,
@@ -121,14 +131,9 @@ export function ChatMessage({
       // Call the parent's edit function (now async)
       await onEdit?.(message.id, editContent.trim());
       
-      // Close the input box immediately after saving
+      // Close the input box immediately after saving; editing a user
+      // message starts a new branch whose reply streams in the background
       setIsEditing(false);
-      
-      // If this is a user message, trigger regeneration in the background
-      if (message.role === 'user' && onRegenerateAfterEdit) {
-        // Don't await this - let it run in the background
-        onRegenerateAfterEdit(message.id);
-      }
     } else {
       // Close the input box even if no changes were made
       setIsEditing(false);
@@ -152,6 +157,8 @@ export function ChatMessage({
 
   const isUser = message.role === "user";
   const isAssistant = message.role === "assistant";
+  // The model was cut off by the token limit or the user stopped it early
+  const canContinue = !isStreaming && (message.status === "stopped" || message.finishReason === "length");
 
   const getFileIcon = (type: string, isWhite = false) => {
     const iconClass = isWhite ? "h-4 w-4 text-white" : "h-4 w-4";
@@ -564,7 +571,31 @@ export function ChatMessage({
                 )}
               </div>
 
-              
+              {/* Saved memories that were in the context for this response */}
+              {isAssistant && !isStreaming && message.memoryIds && message.memoryIds.length > 0 && (
+                <UsedMemories memoryIds={message.memoryIds} />
+              )}
+
+              {/* Stopped indicator - the partial response was kept */}
+              {isAssistant && message.status === "stopped" && !isStreaming && (
+                <div className="flex items-center gap-2 mt-2 text-sm text-gray-500">
+                  <Square className="h-3 w-3" />
+                  <span>Response stopped</span>
+                </div>
+              )}
+
+              {/* Continue generating - for stopped or length-truncated responses */}
+              {isAssistant && canContinue && onContinue && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onContinue(message.id)}
+                  className="mt-2 h-8 gap-2 text-sm text-gray-700"
+                >
+                  <FastForward className="h-4 w-4" />
+                  Continue generating
+                </Button>
+              )}
 
               {/* Action Buttons */}
               {!isEditing && (
@@ -611,8 +642,8 @@ export function ChatMessage({
                     </Button>
                   )}
                   
-                  {/* Pagination controls - Only for assistant messages with multiple paths */}
-                  {isAssistant && showPagination && (
+                  {/* Branch pagination - for messages with siblings where the conversation forks */}
+                  {showPagination && (
                     <div className="flex items-center gap-1">
                       <Button
                         variant="ghost"
@@ -620,7 +651,7 @@ export function ChatMessage({
                         onClick={onPreviousPage}
                         disabled={currentPage <= 1}
                         className="h-8 w-8 p-0 hover:bg-gray-100"
-                        title="Previous page"
+                        title="Previous branch"
                       >
                         <ChevronLeft className="h-4 w-4" />
                       </Button>
@@ -633,7 +664,7 @@ export function ChatMessage({
                         onClick={onNextPage}
                         disabled={currentPage >= totalPages}
                         className="h-8 w-8 p-0 hover:bg-gray-100"
-                        title="Next page"
+                        title="Next branch"
                       >
                         <ChevronRight className="h-4 w-4" />
                       </Button>
@@ -655,6 +686,19 @@ export function ChatMessage({
                     )}
                   </Button>
                   
+                  {/* Branch button - For all messages, where branching is available */}
+                  {onBranch && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onBranch(message.id)}
+                      className="h-8 w-8 p-0 hover:bg-gray-100"
+                      title="Branch in new chat"
+                    >
+                      <GitBranchPlus className="h-4 w-4" />
+                    </Button>
+                  )}
+                  
                   {/* Like/Dislike buttons - Only for assistant messages */}
                   {isAssistant && (
                     <>
@@ -0,0 +1,120 @@
+"use client";
+
+import { GitBranch, User, Bot, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  children: string[];
+  preview: string;
+  timestamp: string;
+}
+
+interface MessageTree {
+  rootIds: string[];
+  nodes: Record<string, MessageTreeNode>;
+}
+
+interface ConversationTreeProps {
+  tree: MessageTree | null;
+  // Ids of the messages on the branch that is shown
+  activePath: string[];
+  onSelectMessage: (messageId: string) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+// Every message of a conversation as a branch map. Runs of messages without
+// forks stay in one column; where a message has several replies (or an edit
+// has several versions), each branch is indented beneath it.
+export function ConversationTree({
+  tree,
+  activePath,
+  onSelectMessage,
+  onClose,
+  disabled = false,
+}: ConversationTreeProps) {
+  const active = new Set(activePath);
+
+  const renderNode = (node: MessageTreeNode) => (
+    <button
+      key={node.id}
+      onClick={() => onSelectMessage(node.id)}
+      disabled={disabled}
+      title={`${node.role === "user" ? "You" : "Assistant"} · ${new Date(node.timestamp).toLocaleString()}\n\n${node.preview}`}
+      className={cn(
+        "w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-xs transition-colors hover:bg-gray-100 disabled:opacity-50",
+        active.has(node.id) ? "bg-gray-100 font-medium text-gray-900" : "text-gray-500"
+      )}
+    >
+      {node.role === "user" ? (
+        <User className="h-3 w-3 flex-shrink-0" />
+      ) : (
+        <Bot className="h-3 w-3 flex-shrink-0" />
+      )}
+      <span className="truncate">{node.preview || "(empty)"}</span>
+    </button>
+  );
+
+  const renderBranch = (startId: string): React.ReactNode => {
+    if (!tree) return null;
+
+    // Follow the branch down to the next fork
+    const chain: MessageTreeNode[] = [];
+    let node: MessageTreeNode | undefined = tree.nodes[startId];
+    while (node) {
+      chain.push(node);
+      if (node.children.length !== 1) break;
+      node = tree.nodes[node.children[0]];
+    }
+
+    const fork = chain[chain.length - 1];
+    return (
+      <div key={startId} className="space-y-0.5">
+        {chain.map(renderNode)}
+        {fork && fork.children.length > 1 && (
+          <div className="ml-2 space-y-1 border-l border-gray-200 pl-2">
+            {fork.children.map(renderBranch)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-72 h-full flex flex-col border-l border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <GitBranch className="h-4 w-4" />
+          Conversation tree
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {!tree ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : tree.rootIds.length === 0 ? (
+          <p className="px-2 py-6 text-center text-xs text-gray-500">No messages yet</p>
+        ) : (
+          <div className="space-y-1">
+            {tree.rootIds.length > 1 ? (
+              <div className="space-y-1 border-l border-gray-200 pl-2">
+                {tree.rootIds.map(renderBranch)}
+              </div>
+            ) : (
+              renderBranch(tree.rootIds[0])
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
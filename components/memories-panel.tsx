@@ -0,0 +1,284 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Search, Pin, PinOff, Pencil, Trash2, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+// Keep in sync with MEMORY_MAX_LENGTH on the server
+const MAX_LENGTH = 1000;
+
+interface Memory {
+  id: string;
+  content: string;
+  pinned?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MemoriesPanelProps {
+  // Reload the list whenever the panel becomes visible
+  isActive: boolean;
+}
+
+export function MemoriesPanel({ isActive }: MemoriesPanelProps) {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [query, setQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const fetchSetting = async () => {
+      try {
+        const response = await fetch('/api/user/memory');
+        if (response.ok) {
+          const data = await response.json();
+          setEnabled(data.enabled);
+        }
+      } catch (error) {
+        console.error('Error fetching memory setting:', error);
+      }
+    };
+    fetchSetting();
+  }, [isActive]);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    if (!isActive) return;
+
+    const fetchMemories = async () => {
+      setIsLoading(true);
+      try {
+        const params = query.trim() ? `?q=${encodeURIComponent(query.trim())}` : '';
+        const response = await fetch(`/api/memories${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setMemories(data.memories);
+        } else {
+          console.error('Failed to fetch memories');
+        }
+      } catch (error) {
+        console.error('Error fetching memories:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    const timeout = setTimeout(fetchMemories, 250);
+    return () => clearTimeout(timeout);
+  }, [isActive, query]);
+
+  const toggleEnabled = async (value: boolean) => {
+    setEnabled(value);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/memory', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled: value }),
+      });
+      if (!response.ok) {
+        setEnabled(!value);
+        setError('Failed to update memory setting');
+      }
+    } catch (error) {
+      console.error('Error updating memory setting:', error);
+      setEnabled(!value);
+      setError('Failed to update memory setting');
+    }
+  };
+
+  const updateMemory = async (id: string, changes: { content?: string; pinned?: boolean }) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/memories/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMemories(prev => {
+          const updated = prev.map(memory => memory.id === id ? data : memory);
+          // Keep pinned memories at the top, as the server orders them
+          return changes.pinned === undefined
+            ? updated
+            : [...updated.filter(memory => memory.pinned), ...updated.filter(memory => !memory.pinned)];
+        });
+        return true;
+      }
+      setError(data.error || 'Failed to update memory');
+    } catch (error) {
+      console.error('Error updating memory:', error);
+      setError('Failed to update memory');
+    }
+    return false;
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !editingContent.trim()) return;
+    if (await updateMemory(editingId, { content: editingContent })) {
+      setEditingId(null);
+    }
+  };
+
+  const deleteMemory = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/memories/${id}`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        setMemories(prev => prev.filter(memory => memory.id !== id));
+      } else {
+        setError('Failed to delete memory');
+      }
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      setError('Failed to delete memory');
+    }
+  };
+
+  const deleteAllMemories = async () => {
+    if (!confirm('Delete all memories? This cannot be undone.')) return;
+
+    setError(null);
+    try {
+      const response = await fetch('/api/memories', {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        setMemories([]);
+      } else {
+        setError('Failed to delete memories');
+      }
+    } catch (error) {
+      console.error('Error deleting memories:', error);
+      setError('Failed to delete memories');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between gap-3">
+        <span>
+          <span className="block text-sm font-medium text-gray-800">Reference saved memories</span>
+          <span className="block text-xs text-gray-500">
+            Remember details from your chats and use them in new responses.
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => toggleEnabled(e.target.checked)}
+          className="h-4 w-4"
+        />
+      </label>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search memories"
+          className="w-full pl-9 pr-3 py-2 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+        />
+      </div>
+
+      {isLoading && memories.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+        </div>
+      ) : memories.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          {query.trim() ? 'No memories match your search' : 'No saved memories yet'}
+        </p>
+      ) : (
+        <ul className="max-h-[45vh] divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+          {memories.map((memory) => (
+            <li key={memory.id} className="group px-3 py-2">
+              {editingId === memory.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editingContent}
+                    maxLength={MAX_LENGTH}
+                    onChange={(e) => setEditingContent(e.target.value)}
+                    className="min-h-[60px] text-sm text-gray-800"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} title="Cancel">
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={saveEdit} title="Save">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  {memory.pinned && <Pin className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-gray-500" />}
+                  <p className="flex-1 text-sm text-gray-800 whitespace-pre-wrap">{memory.content}</p>
+                  <div className="flex flex-shrink-0 gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => updateMemory(memory.id, { pinned: !memory.pinned })}
+                      title={memory.pinned ? 'Unpin' : 'Pin'}
+                    >
+                      {memory.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => {
+                        setEditingId(memory.id);
+                        setEditingContent(memory.content);
+                      }}
+                      title="Edit"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-red-500 hover:text-red-600"
+                      onClick={() => deleteMemory(memory.id)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {memories.length > 0 && !query.trim() && (
+        <div className="flex justify-end">
+          <Button variant="ghost" className="gap-2 text-red-500 hover:text-red-600" onClick={deleteAllMemories}>
+            <Trash2 className="h-4 w-4" />
+            Delete all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Check, ChevronDown, SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ModelInfo, ModelSettings, ProviderId } from "@/lib/ai/types";
+
+interface ProviderOption {
+  id: ProviderId;
+  name: string;
+  defaultModel: string;
+  models: ModelInfo[];
+}
+
+interface ModelPickerProps {
+  value: ModelSettings | null;
+  onChange: (settings: ModelSettings) => void;
+  disabled?: boolean;
+}
+
+export function ModelPicker({ value, onChange, disabled = false }: ModelPickerProps) {
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [defaults, setDefaults] = useState<ModelSettings | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Load the configured providers once
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const response = await fetch('/api/models');
+        if (response.ok) {
+          const data = await response.json();
+          setProviders(data.providers || []);
+          setDefaults(data.defaults || null);
+        } else {
+          console.error('Failed to fetch models');
+        }
+      } catch (error) {
+        console.error('Error fetching models:', error);
+      }
+    };
+    fetchModels();
+  }, []);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('click', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('click', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const current = value || defaults;
+  const currentProvider = providers.find(p => p.id === current?.provider);
+  const currentModelName = currentProvider?.models.find(m => m.id === current?.model)?.name || current?.model || "Model";
+
+  const handleSelectModel = (provider: ProviderId, model: string) => {
+    onChange({
+      provider,
+      model,
+      temperature: current?.temperature,
+      maxTokens: current?.maxTokens,
+      topP: current?.topP,
+    });
+    setIsOpen(false);
+  };
+
+  const handleParameterChange = (key: "temperature" | "maxTokens" | "topP", rawValue: string) => {
+    if (!current) return;
+    const parsed = rawValue === "" ? undefined : Number(rawValue);
+    onChange({ ...current, [key]: parsed !== undefined && Number.isFinite(parsed) ? parsed : undefined });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+        title="Choose model"
+      >
+        <span className="font-semibold text-gray-800">ChatGPT</span>
+        <span className="text-sm text-gray-500 truncate max-w-[160px]">{currentModelName}</span>
+        <ChevronDown className="h-4 w-4 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg border border-gray-200 py-2 min-w-[260px] max-h-[70vh] overflow-y-auto z-[9999]">
+          {providers.length === 0 ? (
+            <p className="px-4 py-2 text-sm text-gray-500">No providers configured</p>
+          ) : (
+            providers.map((provider, index) => (
+              <div key={provider.id}>
+                {index > 0 && <div className="border-t border-gray-100 my-1"></div>}
+                <p className="px-4 py-1 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  {provider.name}
+                </p>
+                {provider.models.map((model) => {
+                  const isSelected = current?.provider === provider.id && current?.model === model.id;
+                  return (
+                    <button
+                      key={model.id}
+                      onClick={() => handleSelectModel(provider.id, model.id)}
+                      className="w-full flex items-center justify-between gap-3 px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+                    >
+                      <span className="text-sm text-gray-800">{model.name}</span>
+                      {isSelected && <Check className="h-4 w-4 text-gray-600" />}
+                    </button>
+                  );
+                })}
+              </div>
+            ))
+          )}
+
+          <div className="border-t border-gray-100 my-1"></div>
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+          >
+            <SlidersHorizontal className="h-4 w-4 text-gray-600" />
+            <span className="text-sm text-gray-800">Generation settings</span>
+            <ChevronDown className={cn("h-4 w-4 text-gray-500 ml-auto transition-transform", showAdvanced && "rotate-180")} />
+          </button>
+
+          {showAdvanced && current && (
+            <div className="px-4 py-2 space-y-3">
+              <label className="block">
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span>Temperature</span>
+                  <span>{current.temperature ?? 0.7}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={current.temperature ?? 0.7}
+                  onChange={(e) => handleParameterChange("temperature", e.target.value)}
+                  className="w-full"
+                />
+              </label>
+              <label className="block">
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span>Top P</span>
+                  <span>{current.topP ?? 1}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={current.topP ?? 1}
+                  onChange={(e) => handleParameterChange("topP", e.target.value)}
+                  className="w-full"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-gray-600 mb-1">Max tokens</span>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Model default"
+                  value={current.maxTokens ?? ""}
+                  onChange={(e) => handleParameterChange("maxTokens", e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { X, Loader2, Trash2, Paperclip, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ProjectFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  cloudinaryUrl?: string;
+  uploadcareId?: string;
+  analysis?: {
+    text?: string;
+    extractedText?: string;
+    summary?: string;
+  };
+}
+
+interface Project {
+  _id: string;
+  name: string;
+  instructions?: string;
+  files?: ProjectFile[];
+}
+
+interface ProjectDialogProps {
+  isOpen: boolean;
+  // Project to edit; omit to create a new one
+  projectId?: string | null;
+  onClose: () => void;
+  onSaved: (project: Project) => void;
+  onDeleted?: (projectId: string) => void;
+}
+
+const emptyProject: Omit<Project, "_id"> = {
+  name: "",
+  instructions: "",
+  files: [],
+};
+
+export function ProjectDialog({ isOpen, projectId, onClose, onSaved, onDeleted }: ProjectDialogProps) {
+  const [draft, setDraft] = useState<Omit<Project, "_id">>(emptyProject);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the project being edited, or start from a blank form
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    if (!projectId) {
+      setDraft(emptyProject);
+      return;
+    }
+
+    const fetchProject = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/projects/${projectId}`);
+        if (response.ok) {
+          const data: Project = await response.json();
+          setDraft({
+            name: data.name,
+            instructions: data.instructions || "",
+            files: data.files || [],
+          });
+        } else {
+          setError('Failed to load project');
+        }
+      } catch (error) {
+        console.error('Error fetching project:', error);
+        setError('Failed to load project');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchProject();
+  }, [isOpen, projectId]);
+
+  const uploadFile = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Upload failed');
+      }
+
+      const uploaded: ProjectFile = {
+        id: result.file.id,
+        name: result.file.name,
+        type: result.file.type,
+        size: result.file.size,
+        url: result.file.url,
+        cloudinaryUrl: result.file.cloudinaryUrl,
+        uploadcareId: result.file.uploadcareId,
+        analysis: result.file.analysis || result.analysis,
+      };
+      setDraft(prev => ({ ...prev, files: [...(prev.files || []), uploaded] }));
+    } catch (error) {
+      console.error('Error uploading project file:', error);
+      setError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const saveProject = async () => {
+    if (!draft.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(projectId ? `/api/projects/${projectId}` : '/api/projects', {
+        method: projectId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(draft),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onSaved(data);
+        onClose();
+      } else {
+        setError(data.error || 'Failed to save project');
+      }
+    } catch (error) {
+      console.error('Error saving project:', error);
+      setError('Failed to save project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProject = async () => {
+    if (!projectId || !confirm('Delete this project? Its chats are kept and moved back to your chat list.')) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        onDeleted?.(projectId);
+        onClose();
+      } else {
+        setError('Failed to delete project');
+      }
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      setError('Failed to delete project');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-800">
+            {projectId ? 'Edit project' : 'Create project'}
+          </h2>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-4 px-6 py-4">
+            <label className="block">
+              <span className="block text-sm text-gray-700 mb-1">Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                maxLength={100}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name your project"
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md bg-white text-gray-800"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block text-sm text-gray-700 mb-1">Instructions</span>
+              <Textarea
+                value={draft.instructions}
+                maxLength={8000}
+                onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                placeholder="What should ChatGPT know or keep in mind in every chat in this project?"
+                className="min-h-[120px] text-gray-800"
+              />
+            </label>
+
+            <div>
+              <span className="block text-sm text-gray-700 mb-1">Files</span>
+              <div className="space-y-1">
+                {(draft.files || []).map((file) => (
+                  <div key={file.id} className="flex items-center gap-2 rounded-md border border-gray-200 px-3 py-2">
+                    <FileText className="h-4 w-4 text-gray-500" />
+                    <span className="flex-1 truncate text-sm text-gray-800">{file.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setDraft({ ...draft, files: (draft.files || []).filter(f => f.id !== file.id) })}
+                      title="Remove file"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                accept=".txt,.md,.pdf,.json,.csv,image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-1 gap-2 text-gray-600"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                Add files
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex items-center justify-between gap-2 pt-2">
+              {projectId ? (
+                <Button variant="ghost" className="gap-2 text-red-500 hover:text-red-600" onClick={deleteProject}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button onClick={saveProject} disabled={isSaving || isUploading}>
+                  {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, useEffect, useRef, type ReactNode } from "react";
+import { X, Loader2, Search, MessageSquare, GitBranch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Snippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+interface SearchMatch {
+  messageId: string;
+  role: "user" | "assistant";
+  snippet: Snippet;
+  timestamp: string;
+  inActivePath: boolean;
+}
+
+interface SearchResult {
+  conversationId: string;
+  title: Snippet;
+  updatedAt: string;
+  matches: SearchMatch[];
+}
+
+interface SearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // messageId is omitted when only the conversation title matched
+  onSelect: (conversationId: string, messageId?: string) => void;
+}
+
+function HighlightedText({ snippet }: { snippet: Snippet }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+  return <>{parts}</>;
+}
+
+export function SearchDialog({ isOpen, onClose, onSelect }: SearchDialogProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const search = async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query.trim())}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (response.ok) {
+          setResults(data.results);
+        } else {
+          setError(data.error || 'Search failed');
+        }
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'AbortError')) {
+          console.error('Error searching chats:', error);
+          setError('Search failed');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    };
+
+    const timeout = setTimeout(search, 300);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [isOpen, query]);
+
+  const select = (conversationId: string, messageId?: string) => {
+    onSelect(conversationId, messageId);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-start justify-center bg-black/50 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[75vh] flex flex-col rounded-2xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4 py-3">
+          <Search className="h-4 w-4 text-gray-500" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats..."
+            maxLength={200}
+            className="flex-1 text-sm bg-transparent text-gray-800 outline-none"
+          />
+          {isSearching && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {error ? (
+            <p className="px-3 py-6 text-center text-sm text-red-500">{error}</p>
+          ) : !query.trim() ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">Search titles and messages across all your chats</p>
+          ) : results.length === 0 && !isSearching ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">No chats found</p>
+          ) : (
+            results.map((result) => (
+              <div key={result.conversationId} className="mb-1">
+                <button
+                  onClick={() => select(result.conversationId, result.matches[0]?.messageId)}
+                  className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left hover:bg-gray-100"
+                >
+                  <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                  <span className="flex-1 truncate text-sm font-medium text-gray-800">
+                    <HighlightedText snippet={result.title} />
+                  </span>
+                  <span className="text-xs text-gray-400">{new Date(result.updatedAt).toLocaleDateString()}</span>
+                </button>
+                {result.matches.map((match) => (
+                  <button
+                    key={match.messageId}
+                    onClick={() => select(result.conversationId, match.messageId)}
+                    className="block w-full rounded-lg py-1.5 pl-9 pr-3 text-left hover:bg-gray-100"
+                  >
+                    <span className="flex items-center gap-1 text-xs text-gray-400">
+                      {match.role === 'user' ? 'You' : 'ChatGPT'}
+                      {!match.inActivePath && (
+                        <span className="flex items-center gap-1" title="On another branch of this chat">
+                          <GitBranch className="h-3 w-3" />
+                          other branch
+                        </span>
+                      )}
+                    </span>
+                    <span className="block text-sm text-gray-600 line-clamp-2">
+                      <HighlightedText snippet={match.snippet} />
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
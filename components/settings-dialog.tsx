@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { MemoriesPanel } from "@/components/memories-panel";
+
+// Keep in sync with CUSTOM_INSTRUCTIONS_MAX_LENGTH on the server
+const MAX_LENGTH = 1500;
+
+interface CustomInstructions {
+  aboutMe: string;
+  responseStyle: string;
+  enabled: boolean;
+}
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
+  const [activeTab, setActiveTab] = useState("personalization");
+  const [instructions, setInstructions] = useState<CustomInstructions>({ aboutMe: "", responseStyle: "", enabled: true });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved instructions each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchInstructions = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/user/custom-instructions');
+        if (response.ok) {
+          const data = await response.json();
+          setInstructions(data.customInstructions);
+        } else {
+          console.error('Failed to fetch custom instructions');
+        }
+      } catch (error) {
+        console.error('Error fetching custom instructions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchInstructions();
+  }, [isOpen]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const saveInstructions = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/custom-instructions', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(instructions),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setInstructions(data.customInstructions);
+        onClose();
+      } else {
+        setError(data.error || 'Failed to save custom instructions');
+      }
+    } catch (error) {
+      console.error('Error saving custom instructions:', error);
+      setError('Failed to save custom instructions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-800">Settings</h2>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="px-6 py-4">
+          <TabsList className="bg-gray-100">
+            <TabsTrigger value="personalization">Personalization</TabsTrigger>
+            <TabsTrigger value="memory">Memory</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="personalization" className="space-y-4 pt-2">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : (
+              <>
+                <label className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-gray-800">Enable custom instructions</span>
+                  <input
+                    type="checkbox"
+                    checked={instructions.enabled}
+                    onChange={(e) => setInstructions({ ...instructions, enabled: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                </label>
+
+                <label className="block">
+                  <span className="block text-sm text-gray-700 mb-1">What would you like ChatGPT to know about you?</span>
+                  <Textarea
+                    value={instructions.aboutMe}
+                    maxLength={MAX_LENGTH}
+                    onChange={(e) => setInstructions({ ...instructions, aboutMe: e.target.value })}
+                    placeholder="Where are you based? What do you do for work? What are your interests?"
+                    className="min-h-[100px] text-gray-800"
+                    disabled={!instructions.enabled}
+                  />
+                  <span className="block text-right text-xs text-gray-400 mt-1">
+                    {instructions.aboutMe.length}/{MAX_LENGTH}
+                  </span>
+                </label>
+
+                <label className="block">
+                  <span className="block text-sm text-gray-700 mb-1">How would you like ChatGPT to respond?</span>
+                  <Textarea
+                    value={instructions.responseStyle}
+                    maxLength={MAX_LENGTH}
+                    onChange={(e) => setInstructions({ ...instructions, responseStyle: e.target.value })}
+                    placeholder="How formal or casual should ChatGPT be? How long or short should responses be?"
+                    className="min-h-[100px] text-gray-800"
+                    disabled={!instructions.enabled}
+                  />
+                  <span className="block text-right text-xs text-gray-400 mt-1">
+                    {instructions.responseStyle.length}/{MAX_LENGTH}
+                  </span>
+                </label>
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={onClose}>
+                    Cancel
+                  </Button>
+                  <Button onClick={saveInstructions} disabled={isSaving}>
+                    {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="memory" className="pt-2">
+            <MemoriesPanel isActive={isOpen && activeTab === "memory"} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
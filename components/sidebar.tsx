@@ -1,10 +1,14 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useUser } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { AssistantDialog } from "@/components/assistant-dialog";
+import { SearchDialog } from "@/components/search-dialog";
+import { ProjectDialog } from "@/components/project-dialog";
 import { 
   Plus, 
   MessageSquare, 
@@ -19,8 +23,17 @@ import {
   Play,
   Grid3X3,
   Folder,
+  FolderPlus,
   ChevronDown,
-  Info
+  ChevronRight,
+  Info,
+  Bot,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  CheckSquare,
+  Square
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -28,6 +41,66 @@ interface Conversation {
   id: string;
   title: string;
   updatedAt: Date;
+  projectId?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// Actions of POST /api/conversations/bulk
+export type ConversationBulkAction = "delete" | "archive" | "unarchive" | "pin" | "unpin" | "move";
+
+interface Project {
+  _id: string;
+  name: string;
+}
+
+interface Assistant {
+  _id: string;
+  name: string;
+  description?: string;
+}
+
+interface ConversationGroup {
+  label: string;
+  conversations: Conversation[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drag data type for moving a conversation between projects
+const CONVERSATION_DRAG_TYPE = "application/x-conversation-id";
+
+// Group conversations by last update: Today, Previous 7 days, Previous 30 days, then by month
+function groupConversationsByDate(conversations: Conversation[], now: Date = new Date()): ConversationGroup[] {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const groups: ConversationGroup[] = [];
+
+  const sorted = [...conversations].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  for (const conversation of sorted) {
+    const updatedAt = new Date(conversation.updatedAt);
+    let label: string;
+    if (updatedAt.getTime() >= startOfToday) {
+      label = "Today";
+    } else if (updatedAt.getTime() >= startOfToday - 7 * DAY_MS) {
+      label = "Previous 7 days";
+    } else if (updatedAt.getTime() >= startOfToday - 30 * DAY_MS) {
+      label = "Previous 30 days";
+    } else {
+      label = updatedAt.toLocaleDateString(undefined, {
+        month: "long",
+        year: updatedAt.getFullYear() === now.getFullYear() ? undefined : "numeric",
+      });
+    }
+
+    const last = groups[groups.length - 1];
+    if (last?.label === label) {
+      last.conversations.push(conversation);
+    } else {
+      groups.push({ label, conversations: [conversation] });
+    }
+  }
+
+  return groups;
 }
 
 interface SidebarProps {
@@ -37,10 +110,25 @@ interface SidebarProps {
   onSelectConversation: (id: string) => void;
   onDeleteConversation: (id: string) => void;
   onRenameConversation: (id: string, newTitle: string) => void;
+  onSelectAssistant?: (assistantId: string) => void;
+  // Start a new chat inside a project
+  onSelectProject?: (projectId: string) => void;
+  // Move a conversation into a project, or out of it with null
+  onMoveConversation?: (id: string, projectId: string | null) => Promise<void>;
+  // A project was deleted and its chats moved back to the main list
+  onProjectDeleted?: (projectId: string) => void;
+  // Pin, archive, move or delete several conversations at once
+  onBulkAction?: (ids: string[], action: ConversationBulkAction, projectId?: string | null) => Promise<void>;
+  // Open a search result; defaults to navigating to the chat page
+  onSelectSearchResult?: (conversationId: string, messageId?: string) => void;
   isMobile?: boolean;
   isOpen?: boolean;
   onToggle?: () => void;
   isLoading?: boolean;
+  // Infinite scroll: more conversations can be loaded from the server
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function Sidebar({
@@ -50,15 +138,255 @@ export function Sidebar({
   onSelectConversation,
   onDeleteConversation,
   onRenameConversation,
+  onSelectAssistant,
+  onSelectProject,
+  onMoveConversation,
+  onProjectDeleted,
+  onBulkAction,
+  onSelectSearchResult,
   isMobile = false,
   isOpen = false,
   onToggle,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: SidebarProps) {
   const { user } = useUser();
   const router = useRouter();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState("");
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [showAssistants, setShowAssistants] = useState(false);
+  const [assistants, setAssistants] = useState<Assistant[]>([]);
+  const [isLoadingAssistants, setIsLoadingAssistants] = useState(false);
+  const [assistantDialog, setAssistantDialog] = useState<{ open: boolean; assistantId?: string }>({ open: false });
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectDialog, setProjectDialog] = useState<{ open: boolean; projectId?: string }>({ open: false });
+  const [expandedProjectIds, setExpandedProjectIds] = useState<string[]>([]);
+  // Chats loaded for each expanded project
+  const [projectConversations, setProjectConversations] = useState<Record<string, Conversation[]>>({});
+  // Project row (or "chats" for the main list) a conversation is dragged over
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedConversations, setArchivedConversations] = useState<Conversation[]>([]);
+  const [archivedCursor, setArchivedCursor] = useState<string | null>(null);
+  const [isLoadingArchived, setIsLoadingArchived] = useState(false);
+  // Multi-select for bulk actions
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Infinite scroll: load more conversations as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isLoadingMore) {
+        onLoadMore();
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, conversations.length, showArchived]);
+
+  // Load assistants the first time the explore section is opened
+  useEffect(() => {
+    if (!showAssistants) return;
+
+    const fetchAssistants = async () => {
+      setIsLoadingAssistants(true);
+      try {
+        const response = await fetch('/api/assistants');
+        if (response.ok) {
+          setAssistants(await response.json());
+        } else {
+          console.error('Failed to fetch assistants');
+        }
+      } catch (error) {
+        console.error('Error fetching assistants:', error);
+      } finally {
+        setIsLoadingAssistants(false);
+      }
+    };
+    fetchAssistants();
+  }, [showAssistants]);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch('/api/projects');
+        if (response.ok) {
+          setProjects(await response.json());
+        } else {
+          console.error('Failed to fetch projects');
+        }
+      } catch (error) {
+        console.error('Error fetching projects:', error);
+      }
+    };
+    fetchProjects();
+  }, []);
+
+  const fetchArchivedConversations = async (cursor?: string) => {
+    setIsLoadingArchived(true);
+    try {
+      const response = await fetch(`/api/conversations?archived=true${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`);
+      if (response.ok) {
+        const data = await response.json();
+        const page: Conversation[] = data.conversations.map((conv: any) => ({
+          id: conv._id,
+          title: conv.title,
+          updatedAt: new Date(conv.updatedAt),
+          projectId: conv.projectId,
+          archived: true,
+        }));
+        setArchivedConversations(prev => cursor ? [...prev, ...page] : page);
+        setArchivedCursor(data.nextCursor);
+      } else {
+        console.error('Failed to fetch archived conversations');
+      }
+    } catch (error) {
+      console.error('Error fetching archived conversations:', error);
+    } finally {
+      setIsLoadingArchived(false);
+    }
+  };
+
+  // Load the archive whenever it is opened, since chats may have been archived since
+  useEffect(() => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    if (showArchived) {
+      fetchArchivedConversations();
+    }
+  }, [showArchived]);
+
+  const fetchProjectConversations = async (projectId: string) => {
+    try {
+      const response = await fetch(`/api/conversations?projectId=${projectId}&limit=100`);
+      if (response.ok) {
+        const data = await response.json();
+        setProjectConversations(prev => ({
+          ...prev,
+          [projectId]: data.conversations.map((conv: any) => ({
+            id: conv._id,
+            title: conv.title,
+            updatedAt: new Date(conv.updatedAt),
+            projectId: conv.projectId,
+            pinned: conv.pinned,
+          })),
+        }));
+      } else {
+        console.error('Failed to fetch project conversations');
+      }
+    } catch (error) {
+      console.error('Error fetching project conversations:', error);
+    }
+  };
+
+  const toggleProject = (projectId: string) => {
+    if (expandedProjectIds.includes(projectId)) {
+      setExpandedProjectIds(prev => prev.filter(id => id !== projectId));
+      return;
+    }
+    setExpandedProjectIds(prev => [...prev, projectId]);
+    fetchProjectConversations(projectId);
+  };
+
+  // Chats the page already knows about win over the ones loaded here,
+  // so new, renamed and moved chats show up without a refetch
+  const getProjectConversations = (projectId: string): Conversation[] => [
+    ...conversations.filter(conv => conv.projectId === projectId && !conv.archived),
+    ...(projectConversations[projectId] || []).filter(conv => !conversations.some(c => c.id === conv.id)),
+  ].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+
+  const findConversation = (id: string): Conversation | undefined =>
+    conversations.find(conv => conv.id === id) ||
+    Object.values(projectConversations).flat().find(conv => conv.id === id);
+
+  const handleDrop = async (event: React.DragEvent, projectId: string | null) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const conversationId = event.dataTransfer.getData(CONVERSATION_DRAG_TYPE);
+    const conversation = conversationId ? findConversation(conversationId) : undefined;
+    if (!conversation || !onMoveConversation || (conversation.projectId || null) === projectId) return;
+
+    await onMoveConversation(conversationId, projectId);
+    setProjectConversations(prev => {
+      const next: Record<string, Conversation[]> = {};
+      for (const [id, list] of Object.entries(prev)) {
+        next[id] = list.filter(conv => conv.id !== conversationId);
+      }
+      if (projectId && next[projectId]) {
+        next[projectId] = [{ ...conversation, projectId }, ...next[projectId]];
+      }
+      return next;
+    });
+  };
+
+  const dropTargetProps = (target: string, projectId: string | null) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return;
+      event.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => current === target ? null : current),
+    onDrop: (event: React.DragEvent) => handleDrop(event, projectId),
+  });
+
+  const handleProjectSaved = (saved: Project) => {
+    setProjects(prev => [saved, ...prev.filter(p => p._id !== saved._id)]);
+  };
+
+  const handleProjectDeleted = (projectId: string) => {
+    setProjects(prev => prev.filter(p => p._id !== projectId));
+    setExpandedProjectIds(prev => prev.filter(id => id !== projectId));
+    onProjectDeleted?.(projectId);
+    setProjectConversations(prev => {
+      const { [projectId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    onDeleteConversation(id);
+    setProjectConversations(prev => Object.fromEntries(
+      Object.entries(prev).map(([projectId, list]) => [projectId, list.filter(conv => conv.id !== id)])
+    ));
+    setArchivedConversations(prev => prev.filter(conv => conv.id !== id));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const runBulkAction = async (ids: string[], action: ConversationBulkAction, projectId?: string | null) => {
+    if (!onBulkAction || ids.length === 0) return;
+    if (action === "delete" && !confirm(ids.length === 1 ? 'Delete this chat?' : `Delete ${ids.length} chats?`)) return;
+
+    await onBulkAction(ids, action, projectId);
+    setIsSelecting(false);
+    setSelectedIds([]);
+
+    // The lists kept here may have changed too
+    expandedProjectIds.forEach(fetchProjectConversations);
+    if (showArchived) {
+      fetchArchivedConversations();
+    }
+  };
+
+  const handleAssistantSaved = (saved: Assistant) => {
+    setAssistants(prev => [saved, ...prev.filter(a => a._id !== saved._id)]);
+  };
+
+  const handleAssistantDeleted = (assistantId: string) => {
+    setAssistants(prev => prev.filter(a => a._id !== assistantId));
+  };
 
   const handleEditStart = (conversation: Conversation) => {
     setEditingId(conversation.id);
@@ -67,7 +395,14 @@ export function Sidebar({
 
   const handleEditSave = () => {
     if (editingId && editTitle.trim()) {
-      onRenameConversation(editingId, editTitle.trim());
+      const title = editTitle.trim();
+      onRenameConversation(editingId, title);
+      setProjectConversations(prev => Object.fromEntries(
+        Object.entries(prev).map(([projectId, list]) => [
+          projectId,
+          list.map(conv => conv.id === editingId ? { ...conv, title } : conv),
+        ])
+      ));
     }
     setEditingId(null);
     setEditTitle("");
@@ -78,6 +413,145 @@ export function Sidebar({
     setEditTitle("");
   };
 
+  // Chats filed under a project are listed under it instead
+  const unfiledConversations = conversations.filter(conv => !conv.projectId && !conv.archived);
+  const pinnedConversations = unfiledConversations
+    .filter(conv => conv.pinned)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  const conversationGroups: ConversationGroup[] = [
+    ...(pinnedConversations.length > 0 ? [{ label: "Pinned", conversations: pinnedConversations }] : []),
+    ...groupConversationsByDate(unfiledConversations.filter(conv => !conv.pinned)),
+  ];
+
+  const renderConversation = (conversation: Conversation) => (
+    <div
+      key={conversation.id}
+      draggable={!!onMoveConversation && !isSelecting && !conversation.archived && editingId !== conversation.id}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, conversation.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      className={cn(
+        "group flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors",
+        currentConversationId === conversation.id || selectedIds.includes(conversation.id)
+          ? "bg-gray-200"
+          : "hover:bg-gray-100"
+      )}
+      onClick={() => isSelecting ? toggleSelected(conversation.id) : onSelectConversation(conversation.id)}
+    >
+      {isSelecting ? (
+        selectedIds.includes(conversation.id)
+          ? <CheckSquare className="h-4 w-4 flex-shrink-0 text-gray-700" />
+          : <Square className="h-4 w-4 flex-shrink-0 text-gray-500" />
+      ) : conversation.pinned ? (
+        <Pin className="h-4 w-4 flex-shrink-0 text-gray-500" />
+      ) : (
+        <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-500" />
+      )}
+
+      {editingId === conversation.id ? (
+        <input
+          type="text"
+          value={editTitle}
+          onChange={(e) => setEditTitle(e.target.value)}
+          onBlur={handleEditSave}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleEditSave();
+            if (e.key === "Escape") handleEditCancel();
+          }}
+          className="flex-1 bg-transparent border-none outline-none text-sm text-gray-800"
+          autoFocus
+        />
+      ) : (
+        <span className="flex-1 text-sm text-gray-800 truncate">
+          {conversation.title}
+        </span>
+      )}
+
+      {!isSelecting && (
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {conversation.archived ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                runBulkAction([conversation.id], "unarchive");
+              }}
+              title="Unarchive"
+            >
+              <ArchiveRestore className="h-3 w-3" />
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  runBulkAction([conversation.id], conversation.pinned ? "unpin" : "pin");
+                }}
+                title={conversation.pinned ? "Unpin" : "Pin"}
+              >
+                {conversation.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEditStart(conversation);
+                }}
+              >
+                <Edit3 className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  runBulkAction([conversation.id], "archive");
+                }}
+                title="Archive"
+              >
+                <Archive className="h-3 w-3" />
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-red-500 hover:text-red-600"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDelete(conversation.id);
+            }}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  const selectToggle = onBulkAction && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-xs text-gray-500 hover:bg-gray-200"
+      onClick={() => {
+        setIsSelecting(!isSelecting);
+        setSelectedIds([]);
+      }}
+    >
+      {isSelecting ? 'Cancel' : 'Select'}
+    </Button>
+  );
+
   const sidebarClasses = cn(
     "sidebar chatgpt-sidebar flex flex-col h-full",
     isMobile && "sidebar-mobile",
@@ -116,6 +590,7 @@ export function Sidebar({
             </Button>
             
             <Button
+              onClick={() => setIsSearchOpen(true)}
               className="w-full justify-start gap-3 h-10 text-gray-700 hover:bg-gray-200"
               variant="ghost"
             >
@@ -124,13 +599,77 @@ export function Sidebar({
             </Button>
             
             <Button
-              className="w-full justify-start gap-3 h-10 text-gray-700 hover:bg-gray-200"
+              onClick={() => setShowAssistants(!showAssistants)}
+              className={cn(
+                "w-full justify-start gap-3 h-10 text-gray-700 hover:bg-gray-200",
+                showAssistants && "bg-gray-200"
+              )}
               variant="ghost"
             >
               <BookOpen className="h-4 w-4" />
-              Library
+              Assistants
+              <ChevronDown className={cn("h-4 w-4 ml-auto text-gray-500 transition-transform", showAssistants && "rotate-180")} />
             </Button>
+
+            {/* Explore: the user's assistants */}
+            {showAssistants && (
+              <div className="pl-3 space-y-1">
+                {isLoadingAssistants ? (
+                  <div className="flex items-center gap-2 p-2 text-gray-500">
+                    <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                    <span className="text-sm">Loading assistants...</span>
+                  </div>
+                ) : (
+                  assistants.map((assistant) => (
+                    <div
+                      key={assistant._id}
+                      className="group flex items-center gap-2 p-2 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                      onClick={() => {
+                        onSelectAssistant?.(assistant._id);
+                        if (isMobile) onToggle?.();
+                      }}
+                      title={assistant.description || assistant.name}
+                    >
+                      <Bot className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                      <span className="flex-1 text-sm text-gray-800 truncate">{assistant.name}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAssistantDialog({ open: true, assistantId: assistant._id });
+                        }}
+                        title="Edit assistant"
+                      >
+                        <Edit3 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+                <Button
+                  onClick={() => setAssistantDialog({ open: true })}
+                  className="w-full justify-start gap-3 h-9 text-gray-600 hover:bg-gray-200"
+                  variant="ghost"
+                >
+                  <Plus className="h-4 w-4" />
+                  Create assistant
+                </Button>
+              </div>
+            )}
             
+            <Button
+              onClick={() => setShowArchived(!showArchived)}
+              className={cn(
+                "w-full justify-start gap-3 h-10 text-gray-700 hover:bg-gray-200",
+                showArchived && "bg-gray-200"
+              )}
+              variant="ghost"
+            >
+              <Archive className="h-4 w-4" />
+              Archived
+            </Button>
+
             <Button
               className="w-full justify-start gap-3 h-10 text-gray-700 hover:bg-gray-200"
               variant="ghost"
@@ -145,89 +684,211 @@ export function Sidebar({
 
         {/* Chats Section */}
         <div className="flex-1 overflow-y-auto px-3">
-          <div className="mb-3">
-            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Chats</h3>
-          </div>
-          
-          <div className="space-y-1">
-            {isLoading ? (
-              <div className="flex items-center justify-center p-4">
-                <div className="flex items-center gap-2 text-gray-500">
-                  <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
-                  <span className="text-sm">Loading conversations...</span>
-                </div>
+          {showArchived ? (
+            <>
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Archived</h3>
+                {selectToggle}
               </div>
-            ) : conversations.length === 0 ? (
-              <div className="flex items-center justify-center p-4">
-                <div className="text-center text-gray-500">
-                  <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No conversations yet</p>
-                  <p className="text-xs text-gray-400">Start a new chat to begin</p>
-                </div>
+              <div className="space-y-1">
+                {archivedConversations.map(renderConversation)}
+                {isLoadingArchived ? (
+                  <div className="flex items-center justify-center p-2">
+                    <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                  </div>
+                ) : archivedConversations.length === 0 ? (
+                  <div className="flex items-center justify-center p-4">
+                    <div className="text-center text-gray-500">
+                      <Archive className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                      <p className="text-sm">No archived chats</p>
+                    </div>
+                  </div>
+                ) : archivedCursor && (
+                  <Button
+                    onClick={() => fetchArchivedConversations(archivedCursor)}
+                    className="w-full h-8 text-xs text-gray-600 hover:bg-gray-200"
+                    variant="ghost"
+                  >
+                    Load more
+                  </Button>
+                )}
               </div>
-            ) : (
-              conversations.map((conversation) => (
-                <div
-                  key={conversation.id}
-                  className={cn(
-                    "group flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors",
-                    currentConversationId === conversation.id
-                      ? "bg-gray-200"
-                      : "hover:bg-gray-100"
-                  )}
-                  onClick={() => onSelectConversation(conversation.id)}
+            </>
+          ) : (
+            <>
+            {/* Projects: drop a chat on a project to move it there */}
+            <div className="mb-4">
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Projects</h3>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-gray-500"
+                  onClick={() => setProjectDialog({ open: true })}
+                  title="New project"
                 >
-                  <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-500" />
-                  
-                  {editingId === conversation.id ? (
-                    <input
-                      type="text"
-                      value={editTitle}
-                      onChange={(e) => setEditTitle(e.target.value)}
-                      onBlur={handleEditSave}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") handleEditSave();
-                        if (e.key === "Escape") handleEditCancel();
-                      }}
-                      className="flex-1 bg-transparent border-none outline-none text-sm text-gray-800"
-                      autoFocus
-                    />
-                  ) : (
-                    <span className="flex-1 text-sm text-gray-800 truncate">
-                      {conversation.title}
-                    </span>
-                  )}
+                  <FolderPlus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="space-y-1">
+                {projects.map((project) => {
+                  const isExpanded = expandedProjectIds.includes(project._id);
+                  const projectChats = getProjectConversations(project._id);
+                  return (
+                    <div key={project._id}>
+                      <div
+                        className={cn(
+                          "group flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors hover:bg-gray-100",
+                          dropTarget === project._id && "bg-gray-200 ring-1 ring-gray-400"
+                        )}
+                        onClick={() => {
+                          onSelectProject?.(project._id);
+                          if (isMobile) onToggle?.();
+                        }}
+                        {...dropTargetProps(project._id, project._id)}
+                      >
+                        <button
+                          className="flex-shrink-0 text-gray-500"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleProject(project._id);
+                          }}
+                          title={isExpanded ? "Hide chats" : "Show chats"}
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                        <Folder className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                        <span className="flex-1 text-sm text-gray-800 truncate">{project.name}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setProjectDialog({ open: true, projectId: project._id });
+                          }}
+                          title="Edit project"
+                        >
+                          <Edit3 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      {isExpanded && (
+                        <div className="pl-6 space-y-1">
+                          {projectChats.length === 0 ? (
+                            <p className="px-2 py-1 text-xs text-gray-400">No chats in this project yet</p>
+                          ) : (
+                            projectChats.map(renderConversation)
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {projects.length === 0 && (
+                  <Button
+                    onClick={() => setProjectDialog({ open: true })}
+                    className="w-full justify-start gap-3 h-9 text-gray-600 hover:bg-gray-200"
+                    variant="ghost"
+                  >
+                    <FolderPlus className="h-4 w-4" />
+                    New project
+                  </Button>
+                )}
+              </div>
+            </div>
 
-                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleEditStart(conversation);
-                      }}
-                    >
-                      <Edit3 className="h-3 w-3" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 text-red-500 hover:text-red-600"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDeleteConversation(conversation.id);
-                      }}
-                    >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+            {/* Dropping a chat here takes it out of its project */}
+            <div
+              className={cn("mb-3 rounded-lg", dropTarget === "chats" && "bg-gray-200 ring-1 ring-gray-400")}
+              {...dropTargetProps("chats", null)}
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Chats</h3>
+                {selectToggle}
+              </div>
+            </div>
+          
+            <div className="space-y-1">
+              {isLoading ? (
+                <div className="flex items-center justify-center p-4">
+                  <div className="flex items-center gap-2 text-gray-500">
+                    <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                    <span className="text-sm">Loading conversations...</span>
                   </div>
                 </div>
-              ))
-            )}
-          </div>
+              ) : unfiledConversations.length === 0 ? (
+                <div className="flex items-center justify-center p-4">
+                  <div className="text-center text-gray-500">
+                    <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No conversations yet</p>
+                    <p className="text-xs text-gray-400">Start a new chat to begin</p>
+                  </div>
+                </div>
+              ) : (
+                conversationGroups.map((group) => (
+                  <div key={group.label} className="space-y-1 pb-3">
+                    <h4 className="px-2 pt-1 text-xs font-medium text-gray-500">{group.label}</h4>
+                    {group.conversations.map(renderConversation)}
+                  </div>
+                ))
+              )}
+
+              {/* Load the next page when this comes into view */}
+              {hasMore && !isLoading && (
+                <div ref={loadMoreRef} className="flex items-center justify-center p-2">
+                  {isLoadingMore && (
+                    <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                  )}
+                </div>
+              )}
+            </div>
+            </>
+          )}
         </div>
 
+        {/* Bulk actions for the selected chats */}
+        {isSelecting && (
+          <div className="p-3 border-t border-gray-200 space-y-2">
+            <p className="text-xs text-gray-500">
+              {selectedIds.length === 0 ? 'Select chats' : `${selectedIds.length} selected`}
+            </p>
+            <div className="flex flex-wrap items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-1 text-gray-700 hover:bg-gray-200"
+                disabled={selectedIds.length === 0}
+                onClick={() => runBulkAction(selectedIds, showArchived ? "unarchive" : "archive")}
+              >
+                {showArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                {showArchived ? 'Unarchive' : 'Archive'}
+              </Button>
+              <select
+                value=""
+                disabled={selectedIds.length === 0}
+                onChange={(e) => runBulkAction(selectedIds, "move", e.target.value === "none" ? null : e.target.value)}
+                className="h-8 px-2 text-sm border border-gray-200 rounded-md bg-white text-gray-700"
+              >
+                <option value="" disabled>Move to...</option>
+                <option value="none">No project</option>
+                {projects.map((project) => (
+                  <option key={project._id} value={project._id}>{project.name}</option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-1 text-red-500 hover:text-red-600 hover:bg-gray-200"
+                disabled={selectedIds.length === 0}
+                onClick={() => runBulkAction(selectedIds, "delete")}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* User Profile */}
         <div className="p-3 border-t border-gray-200">
           <div className="flex items-center gap-3">
@@ -245,6 +906,15 @@ export function Sidebar({
                 Free
               </p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-600 hover:bg-gray-200"
+              onClick={() => setIsSettingsOpen(true)}
+              title="Settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
             <Button 
               variant="ghost" 
               size="sm" 
@@ -255,6 +925,34 @@ export function Sidebar({
           </div>
         </div>
       </div>
+
+      <SettingsDialog isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <SearchDialog
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        onSelect={(conversationId, messageId) => {
+          if (onSelectSearchResult) {
+            onSelectSearchResult(conversationId, messageId);
+          } else {
+            router.push(messageId ? `/chat/${conversationId}?message=${messageId}` : `/chat/${conversationId}`);
+          }
+          if (isMobile) onToggle?.();
+        }}
+      />
+      <AssistantDialog
+        isOpen={assistantDialog.open}
+        assistantId={assistantDialog.assistantId}
+        onClose={() => setAssistantDialog({ open: false })}
+        onSaved={handleAssistantSaved}
+        onDeleted={handleAssistantDeleted}
+      />
+      <ProjectDialog
+        isOpen={projectDialog.open}
+        projectId={projectDialog.projectId}
+        onClose={() => setProjectDialog({ open: false })}
+        onSaved={handleProjectSaved}
+        onDeleted={handleProjectDeleted}
+      />
     </>
   );
 }
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { Brain, ChevronDown, ChevronUp, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Memory {
+  id: string;
+  content: string;
+}
+
+interface UsedMemoriesProps {
+  // Memories that were added to the context for this response
+  memoryIds: string[];
+}
+
+export function UsedMemories({ memoryIds }: UsedMemoriesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Loaded on first open; null until then
+  const [memories, setMemories] = useState<Memory[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [forgettingId, setForgettingId] = useState<string | null>(null);
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening || memories) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/memories?ids=${memoryIds.map(encodeURIComponent).join(',')}`);
+      if (response.ok) {
+        const data = await response.json();
+        setMemories(data.memories);
+      } else {
+        console.error('Failed to fetch memories');
+      }
+    } catch (error) {
+      console.error('Error fetching memories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const forgetMemory = async (id: string) => {
+    setForgettingId(id);
+    try {
+      const response = await fetch(`/api/memories/${id}`, {
+        method: 'DELETE',
+      });
+      // Already gone counts as forgotten
+      if (response.ok || response.status === 404) {
+        setMemories(prev => (prev || []).filter(memory => memory.id !== id));
+      } else {
+        console.error('Failed to forget memory');
+      }
+    } catch (error) {
+      console.error('Error forgetting memory:', error);
+    } finally {
+      setForgettingId(null);
+    }
+  };
+
+  // Memories deleted since the response was written are listed as a count
+  const forgottenCount = memories ? memoryIds.length - memories.length : 0;
+
+  return (
+    <div className="mt-2 text-sm">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1.5 text-gray-500 hover:text-gray-700"
+        title="Memories used for this response"
+      >
+        <Brain className="h-3.5 w-3.5" />
+        <span>Used {memoryIds.length} saved {memoryIds.length === 1 ? 'memory' : 'memories'}</span>
+        {isOpen ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 rounded-md border border-gray-200 bg-gray-50 px-3 py-2">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+          ) : (
+            <ul className="space-y-1">
+              {(memories || []).map((memory) => (
+                <li key={memory.id} className="group flex items-start gap-2">
+                  <span className="flex-1 text-gray-700">{memory.content}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0 text-gray-400 opacity-0 transition-opacity hover:text-red-500 group-hover:opacity-100"
+                    onClick={() => forgetMemory(memory.id)}
+                    disabled={forgettingId === memory.id}
+                    title="Forget this memory"
+                  >
+                    {forgettingId === memory.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+                  </Button>
+                </li>
+              ))}
+              {forgottenCount > 0 && (
+                <li className="text-xs text-gray-400">
+                  {forgottenCount} {forgottenCount === 1 ? 'memory has' : 'memories have'} since been deleted
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
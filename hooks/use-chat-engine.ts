@@ -0,0 +1,945 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import type { ConversationBulkAction } from "@/components/sidebar";
+import type { ModelSettings } from "@/lib/ai/types";
+import { readEventStream } from "@/lib/sse";
+import {
+  type Conversation,
+  type Message,
+  type MessageTree,
+  type UploadedFile,
+  toConversation,
+  toMessage,
+  updateConversation,
+  updateMessage,
+  mergeConversationPage,
+  mergeBulkUpdate,
+  showBranch,
+  findSiblingId,
+  showVersion,
+  createStreamingMessage,
+  applyReplyEvent,
+  createFailedReply,
+  stopReply,
+  markContinuing,
+  applyResumedEvent,
+} from "@/lib/chat-state";
+
+export interface NewConversationOptions {
+  assistantId?: string;
+  projectId?: string;
+  temporary?: boolean;
+}
+
+interface ChatEngineOptions {
+  initialConversationId?: string | null;
+  // Sent along when the first message of a new chat creates its conversation
+  getNewConversationOptions?: () => NewConversationOptions;
+  // A conversation created by sendMessage got its first reply
+  onConversationCreated?: (conversation: Conversation) => void;
+  // A conversation was branched into a new chat
+  onConversationForked?: (conversation: Conversation) => void;
+  // The open conversation was deleted
+  onCurrentConversationDeleted?: () => void;
+}
+
+// Conversation list, messages, streaming and branch switching for the chat
+// pages. The pages only differ in how they start chats and navigate.
+export function useChatEngine({
+  initialConversationId = null,
+  getNewConversationOptions,
+  onConversationCreated,
+  onConversationForked,
+  onCurrentConversationDeleted,
+}: ChatEngineOptions = {}) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [currentConversationId, setCurrentConversationId] = useState<string | null>(initialConversationId);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const [isLoadingMoreConversations, setIsLoadingMoreConversations] = useState(false);
+  // Where the next page of the sidebar list starts; null once everything is loaded
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  // Every message of the current conversation, for switching branches where it forks
+  const [messageTree, setMessageTree] = useState<MessageTree | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings | null>(null);
+  // Message opened from search or the conversation tree; kept in view until the next generation
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeGenerationIdRef = useRef<string | null>(null);
+  const saveModelSettingsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const currentConversation = conversations.find(c => c.id === currentConversationId);
+  const currentMessages = currentConversation?.messages || [];
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  // Follow new messages, or keep the highlighted one in view
+  useEffect(() => {
+    if (currentMessages.length > 0) {
+      if (highlightedMessageId) {
+        document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      } else {
+        scrollToBottom();
+      }
+    }
+  }, [currentMessages, highlightedMessageId]);
+
+  // Go back to following the latest message once something is generated
+  useEffect(() => {
+    if (isGenerating) {
+      setHighlightedMessageId(null);
+    }
+  }, [isGenerating]);
+
+  // Fetch a page of conversations from MongoDB, newest first. Pinned
+  // conversations are fetched separately so they are always at the top.
+  const fetchConversationPage = async (cursor?: string) => {
+    const response = await fetch(`/api/conversations?pinned=false${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch conversations: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const page: Conversation[] = data.conversations.map(toConversation);
+    setConversationsCursor(data.nextCursor);
+    return page;
+  };
+
+  const fetchPinnedConversations = async () => {
+    const response = await fetch('/api/conversations?pinned=true&limit=100');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch pinned conversations: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.conversations.map(toConversation) as Conversation[];
+  };
+
+  const fetchConversations = async () => {
+    setIsLoadingConversations(true);
+    try {
+      const [pinned, unpinned] = await Promise.all([fetchPinnedConversations(), fetchConversationPage()]);
+      setConversations(prev => mergeConversationPage(prev, [...pinned, ...unpinned]));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+  };
+
+  // Load the next page when the sidebar is scrolled to the end
+  const loadMoreConversations = async () => {
+    if (!conversationsCursor || isLoadingMoreConversations) return;
+
+    setIsLoadingMoreConversations(true);
+    try {
+      const page = await fetchConversationPage(conversationsCursor);
+      setConversations(prev => [...prev, ...page.filter(conv => !prev.some(c => c.id === conv.id))]);
+    } catch (error) {
+      console.error('Error fetching more conversations:', error);
+    } finally {
+      setIsLoadingMoreConversations(false);
+    }
+  };
+
+  /**
+   * Fetch a conversation with the messages of its active path. Returns the
+   * active path, or null if the conversation couldn't be loaded.
+   */
+  const fetchConversationMessages = async (conversationId: string): Promise<string[] | null> => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`);
+      if (!response.ok) {
+        console.error('Failed to fetch conversation messages');
+        return null;
+      }
+
+      const data = await response.json();
+      // Update the conversation with its messages. It may be older than the
+      // loaded pages of the sidebar list, so add it if it isn't there.
+      setConversations(prev => updateConversation(
+        prev.some(conv => conv.id === conversationId) ? prev : [...prev, toConversation(data)],
+        conversationId,
+        () => ({
+          messages: data.messages.map(toMessage),
+          activePath: data.activePath || [],
+          currentPage: 0,
+          totalPages: 1,
+          temporary: data.temporary,
+          projectId: data.projectId,
+          pinned: data.pinned,
+          archived: data.archived,
+          forkedFrom: data.forkedFrom,
+        })
+      ));
+
+      // Show the model this conversation was using
+      setModelSettings(data.modelSettings?.model ? data.modelSettings : null);
+
+      // Reattach to an answer that was still being generated before a reload
+      const pendingMessage = data.messages.find((msg: any) => msg.role === 'assistant' && msg.metadata?.status === 'streaming');
+      if (pendingMessage) {
+        resumeGeneration(conversationId, pendingMessage._id);
+      }
+
+      // Fetch the message tree for switching branches
+      await fetchMessageTree(conversationId);
+      return data.activePath || [];
+    } catch (error) {
+      console.error('Error fetching conversation messages:', error);
+      return null;
+    }
+  };
+
+  // Show a message, switching to the branch that contains it if it isn't shown
+  const jumpToMessage = async (conversationId: string, messageId: string, shownMessageIds: string[]) => {
+    if (!shownMessageIds.includes(messageId) && !(await switchToBranch(conversationId, messageId))) {
+      return;
+    }
+
+    setHighlightedMessageId(messageId);
+  };
+
+  // Fetch the conversation's message tree
+  const fetchMessageTree = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/tree`);
+      if (response.ok) {
+        const data = await response.json();
+        setMessageTree({ rootIds: data.rootIds, nodes: data.nodes });
+      } else {
+        console.error('Failed to fetch message tree');
+      }
+    } catch (error) {
+      console.error('Error fetching message tree:', error);
+    }
+  };
+
+  // Reattach to a generation that is running (or just finished) on the server
+  const resumeGeneration = async (
+    conversationId: string,
+    messageId: string,
+    lastEventId: string = '0',
+    placeholderId: string = messageId
+  ): Promise<boolean> => {
+    const update = (change: (message: Message) => Message) => {
+      setConversations(prev => updateMessage(prev, conversationId, placeholderId, change));
+    };
+
+    setIsGenerating(true);
+    setIsStreaming(true);
+    activeGenerationIdRef.current = messageId;
+    abortControllerRef.current = new AbortController();
+
+    try {
+      const response = await fetch(`/api/chat/stream/${messageId}`, {
+        headers: {
+          'Last-Event-ID': lastEventId,
+        },
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        return false;
+      }
+
+      let finished = false;
+      await readEventStream(response.body, ({ data }) => {
+        if (data.type === 'done' || data.type === 'error') {
+          finished = true;
+        }
+        // Only a replay from the start drops the partial text saved before the reload
+        if (data.type !== 'metadata' || lastEventId === '0') {
+          update(m => applyResumedEvent(m, data, messageId));
+        }
+      });
+
+      return finished;
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error('Error resuming generation:', error);
+      }
+      return false;
+    } finally {
+      setIsGenerating(false);
+      setIsStreaming(false);
+      activeGenerationIdRef.current = null;
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Switch to the branch that runs through a message
+  const switchToBranch = async (conversationId: string, messageId: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/tree`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to switch branch:', response.status);
+        return false;
+      }
+
+      const data = await response.json();
+      setConversations(prev => showBranch(prev, conversationId, data.messages.map(toMessage), data.activePath));
+      return true;
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      return false;
+    }
+  };
+
+  // Show the previous (-1) or next (1) sibling of a message where the conversation forks
+  const switchToSibling = (messageId: string, offset: number) => {
+    if (!messageTree || !currentConversationId) return;
+
+    const siblingId = findSiblingId(messageTree, messageId, offset);
+    if (siblingId) {
+      switchToBranch(currentConversationId, siblingId);
+    }
+  };
+
+  // Leave the open conversation so the next message starts a new one
+  const startNewChat = () => {
+    setCurrentConversationId(null);
+    // Clear any current messages when starting a new chat
+    setConversations(prev => updateConversation(prev, currentConversationId, () => ({ messages: [] })));
+  };
+
+  const handleMoveConversation = async (id: string, projectId: string | null) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId }),
+      });
+
+      if (response.ok) {
+        const moved = toConversation(await response.json());
+        setConversations(prev => prev.some(conv => conv.id === id)
+          ? updateConversation(prev, id, () => ({ projectId: moved.projectId, updatedAt: moved.updatedAt }))
+          : [moved, ...prev]
+        );
+      } else {
+        console.error('Failed to move conversation');
+      }
+    } catch (error) {
+      console.error('Error moving conversation:', error);
+    }
+  };
+
+  // The project's chats were moved back to the main list on the server
+  const handleProjectDeleted = (projectId: string) => {
+    setConversations(prev => prev.map(conv => conv.projectId === projectId ? { ...conv, projectId: undefined } : conv));
+    fetchConversations();
+  };
+
+  const removeConversations = (ids: string[]) => {
+    setConversations(prev => prev.filter(conv => !ids.includes(conv.id)));
+    if (currentConversationId && ids.includes(currentConversationId)) {
+      setCurrentConversationId(null);
+      onCurrentConversationDeleted?.();
+    }
+  };
+
+  const handleBulkAction = async (ids: string[], action: ConversationBulkAction, projectId?: string | null) => {
+    try {
+      const response = await fetch('/api/conversations/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids, action, projectId }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to update conversations');
+        return;
+      }
+
+      if (action === 'delete') {
+        removeConversations(ids);
+        return;
+      }
+
+      const updated: Conversation[] = (await response.json()).conversations.map(toConversation);
+      setConversations(prev => mergeBulkUpdate(prev, updated));
+    } catch (error) {
+      console.error('Error updating conversations:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        removeConversations([id]);
+      } else {
+        console.error('Failed to delete conversation');
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
+  const handleRenameConversation = async (id: string, newTitle: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: newTitle }),
+      });
+
+      if (response.ok) {
+        setConversations(prev => updateConversation(prev, id, () => ({ title: newTitle, updatedAt: new Date() })));
+      } else {
+        console.error('Failed to rename conversation');
+      }
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
+
+  const handleModelSettingsChange = (settings: ModelSettings) => {
+    setModelSettings(settings);
+
+    // New chats send their settings with the first message
+    if (!currentConversationId) return;
+
+    // Debounce so dragging a slider doesn't fire a request per step
+    if (saveModelSettingsTimeoutRef.current) {
+      clearTimeout(saveModelSettingsTimeoutRef.current);
+    }
+    const conversationId = currentConversationId;
+    saveModelSettingsTimeoutRef.current = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ modelSettings: settings }),
+        });
+
+        if (!response.ok) {
+          console.error('Failed to save model settings');
+        }
+      } catch (error) {
+        console.error('Error saving model settings:', error);
+      }
+    }, 400);
+  };
+
+  const stopGeneration = () => {
+    if (activeGenerationIdRef.current) {
+      // Generations outlive the request, so ask the server to stop; the stream
+      // then ends with the partial response marked as stopped
+      fetch('/api/chat/stop', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId: activeGenerationIdRef.current }),
+      }).catch(error => console.error('Error stopping generation:', error));
+    } else if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+    setIsGenerating(false);
+    setIsStreaming(false);
+  };
+
+  // Pick up a stopped or truncated answer where it ended, in the same message
+  const continueResponse = async (messageId: string) => {
+    const conversationId = currentConversationId;
+    if (!conversationId || isGenerating) return;
+
+    const update = (change: (message: Message) => Message) => {
+      setConversations(prev => updateMessage(prev, conversationId, messageId, change));
+    };
+
+    update(markContinuing);
+    setIsGenerating(true);
+    setIsStreaming(true);
+    activeGenerationIdRef.current = messageId;
+    abortControllerRef.current = new AbortController();
+
+    let lastEventId = '0';
+    let finished = false;
+
+    try {
+      const response = await fetch('/api/chat/continue', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error('Failed to continue response');
+      }
+
+      await readEventStream(response.body, ({ id, data }) => {
+        if (id) lastEventId = id;
+
+        if (data.type === 'done' || data.type === 'error') {
+          finished = true;
+        }
+        update(m => applyResumedEvent(m, data, messageId));
+      });
+
+      if (!finished) {
+        throw new Error('Stream ended before the response finished');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        update(m => ({ ...m, status: 'stopped' }));
+        return;
+      }
+      console.error('Error continuing response:', error);
+
+      // The generation keeps running on the server; try to reattach once it has started
+      if (lastEventId !== '0' && await resumeGeneration(conversationId, messageId, lastEventId)) {
+        return;
+      }
+      update(m => ({ ...m, status: 'stopped' }));
+    } finally {
+      if (activeGenerationIdRef.current === messageId) {
+        setIsGenerating(false);
+        setIsStreaming(false);
+        activeGenerationIdRef.current = null;
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const editMessage = async (messageId: string, newContent: string) => {
+    const messageIndex = currentMessages.findIndex(m => m.id === messageId);
+    if (messageIndex === -1) return;
+    const currentMessage = currentMessages[messageIndex];
+
+    // Persist the change to the database
+    try {
+      const response = await fetch(`/api/messages/${messageId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          content: newContent,
+          files: currentMessage.files || [] // Preserve existing files
+        }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to update message in database');
+        return;
+      }
+
+      const responseData = await response.json();
+      if (!responseData.success || !responseData.message) return;
+
+      if (responseData.activePath) {
+        // The edited user message is a new sibling branch - answer it, and keep
+        // the original thread reachable through the branch arrows
+        const editedMessage: Message = {
+          id: responseData.message.id,
+          role: "user",
+          content: responseData.message.content,
+          timestamp: new Date(),
+          edited: responseData.message.edited,
+          files: responseData.message.files || currentMessage.files,
+        };
+
+        // Don't await this - the edit box closes while the reply streams
+        generateResponseFrom([...currentMessages.slice(0, messageIndex), editedMessage], responseData.activePath);
+        return;
+      }
+
+      // Assistant messages are edited in place
+      setConversations(prev => updateMessage(prev, currentConversationId, messageId, m => ({
+        ...m,
+        content: responseData.message.content,
+        files: responseData.message.files || m.files,
+        edited: responseData.message.edited,
+      })));
+    } catch (error) {
+      console.error('Error updating message in database:', error);
+    }
+  };
+
+  const regenerateResponse = async (messageId: string) => {
+    // Find the user message that this assistant message is responding to
+    const messageIndex = currentMessages.findIndex(m => m.id === messageId);
+    if (messageIndex === -1) return;
+
+    const userMessage = currentMessages[messageIndex - 1];
+    if (!userMessage || userMessage.role !== "user") return;
+
+    // Update the conversation to remove the assistant message and subsequent messages from active path
+    // Include the user message in the path (messageIndex - 1 is the user message)
+    const newActivePath = currentConversation?.activePath?.slice(0, messageIndex) || [];
+
+    // Ensure the user message is in the path
+    if (userMessage.id && !newActivePath.includes(userMessage.id)) {
+      newActivePath.push(userMessage.id);
+    }
+
+    await generateResponseFrom(currentMessages.slice(0, messageIndex), newActivePath);
+  };
+
+  // Show the branch ending at a user message and stream a new reply to it
+  const generateResponseFrom = async (messages: Message[], newActivePath: string[]) => {
+    const conversationId = currentConversationId;
+
+    // Add streaming assistant message placeholder
+    const streamingMessageId = `streaming_${Date.now()}`;
+    setConversations(prev => showBranch(prev, conversationId, [...messages, createStreamingMessage(streamingMessageId)], newActivePath));
+
+    const update = (change: (message: Message) => Message) => {
+      setConversations(prev => updateMessage(prev, conversationId, streamingMessageId, change));
+    };
+
+    setIsGenerating(true);
+    setIsStreaming(true);
+
+    // Create abort controller for stopping generation
+    abortControllerRef.current = new AbortController();
+    let metadata: any = null;
+    let lastEventId = '0';
+    let finished = false;
+    // Set when the server reports that the generation failed
+    let streamError: string | null = null;
+
+    try {
+      const response = await fetch("/api/chat/regenerate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          conversationId,
+          activePath: newActivePath,
+          modelSettings: modelSettings || undefined,
+        }),
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("Regenerate error:", errorText);
+        throw new Error(`Failed to regenerate response: ${errorText}`);
+      }
+
+      // Handle streaming response
+      if (response.body) {
+        await readEventStream(response.body, ({ id, data }) => {
+          if (id) lastEventId = id;
+
+          if (data.type === 'done' || data.type === 'error') {
+            finished = true;
+          }
+
+          if (data.type === 'metadata') {
+            metadata = data;
+            activeGenerationIdRef.current = data.messageId;
+          } else if (data.type === 'error') {
+            streamError = data.error || 'Streaming error';
+          } else {
+            update(m => applyReplyEvent(m, data, metadata));
+          }
+        });
+      }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!finished) {
+        throw new Error('Stream ended before the response finished');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        // User stopped generation; the server keeps the partial response if it stored one
+        setConversations(prev => stopReply(prev, conversationId, streamingMessageId, metadata?.messageId));
+        return;
+      }
+
+      // The connection dropped mid-answer - reattach to the generation still running on the server
+      if (!streamError && metadata?.messageId && conversationId && await resumeGeneration(conversationId, metadata.messageId, lastEventId, streamingMessageId)) {
+        return;
+      }
+
+      console.error("Error regenerating response:", error);
+
+      // Update streaming message with error content
+      update(() => createFailedReply(
+        metadata?.messageId || `error_${Date.now()}`,
+        "Sorry, I couldn't regenerate the response. Please try again."
+      ));
+    } finally {
+      setIsGenerating(false);
+      setIsStreaming(false);
+      abortControllerRef.current = null;
+      activeGenerationIdRef.current = null;
+
+      // Refresh the message tree after regeneration
+      if (conversationId) {
+        await fetchMessageTree(conversationId);
+      }
+    }
+  };
+
+  const switchToVersion = (messageId: string, versionIndex: number) => {
+    setConversations(prev => updateMessage(prev, currentConversationId, messageId, m => showVersion(m, versionIndex)));
+  };
+
+  // Continue the shown branch up to a message in a new chat
+  const branchInNewChat = async (messageId: string) => {
+    if (!currentConversationId) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${currentConversationId}/fork`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to branch conversation:', await response.text());
+        return;
+      }
+
+      const forked = toConversation(await response.json());
+      setConversations(prev => [forked, ...prev]);
+      onConversationForked?.(forked);
+    } catch (error) {
+      console.error('Error branching conversation:', error);
+    }
+  };
+
+  const copyToClipboard = (content: string) => {
+    // Copy functionality can be added here
+  };
+
+  const likeMessage = (messageId: string) => {
+    // Like functionality can be added here
+  };
+
+  const dislikeMessage = (messageId: string) => {
+    // Dislike functionality can be added here
+  };
+
+  const sendMessage = async (content: string, files?: UploadedFile[]) => {
+    // Create new conversation if none exists
+    let conversationId = currentConversationId;
+    let createdConversation: Conversation | null = null;
+    if (!conversationId) {
+      // Create conversation in database first
+      try {
+        const response = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            title: content.slice(0, 50) + (content.length > 50 ? "..." : ""),
+            modelSettings: modelSettings || undefined,
+            ...getNewConversationOptions?.(),
+          }),
+        });
+
+        if (response.ok) {
+          const newConversation = toConversation(await response.json());
+          setConversations(prev => [newConversation, ...prev]);
+          createdConversation = newConversation;
+          conversationId = newConversation.id;
+          setCurrentConversationId(conversationId);
+        } else {
+          console.error('Failed to create conversation in database');
+          return;
+        }
+      } catch (error) {
+        console.error('Error creating conversation:', error);
+        return;
+      }
+    }
+
+    // Create a temporary message ID for immediate UI update
+    const tempMessageId = `temp_${Date.now()}`;
+    const userMessage: Message = {
+      id: tempMessageId,
+      role: "user",
+      content,
+      timestamp: new Date(),
+      files: files || [],
+    };
+
+    // Add streaming assistant message placeholder
+    const streamingMessageId = `streaming_${Date.now()}`;
+
+    // Show the user message and the placeholder right away
+    setConversations(prev => updateConversation(prev, conversationId, c => ({
+      messages: [...c.messages, userMessage, createStreamingMessage(streamingMessageId)],
+      updatedAt: new Date()
+    })));
+
+    const update = (messageId: string, change: (message: Message) => Message) => {
+      setConversations(prev => updateMessage(prev, conversationId, messageId, change));
+    };
+
+    setIsGenerating(true);
+    setIsStreaming(true);
+
+    // Create abort controller for stopping generation
+    abortControllerRef.current = new AbortController();
+    let metadata: any = null;
+    let lastEventId = '0';
+    let finished = false;
+    // Set when the server reports that the generation failed
+    let streamError: string | null = null;
+
+    try {
+      // Call the streaming AI API
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          message: content,
+          conversationId: conversationId,
+          files: files || [],
+          modelSettings: modelSettings || undefined,
+        }),
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to get AI response");
+      }
+
+      // Handle streaming response
+      if (response.body) {
+        await readEventStream(response.body, ({ id, data }) => {
+          if (id) lastEventId = id;
+
+          if (data.type === 'done' || data.type === 'error') {
+            finished = true;
+          }
+
+          if (data.type === 'metadata') {
+            metadata = data;
+            activeGenerationIdRef.current = data.messageId;
+            // Update the user message with the real ID from database
+            update(tempMessageId, m => ({ ...m, id: data.userMessageId }));
+          } else if (data.type === 'error') {
+            streamError = data.error || 'Streaming error';
+          } else {
+            update(streamingMessageId, m => applyReplyEvent(m, data, metadata));
+          }
+        });
+      }
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!finished) {
+        throw new Error('Stream ended before the response finished');
+      }
+
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        // User stopped generation; the server keeps the partial response if it stored one
+        setConversations(prev => stopReply(prev, conversationId, streamingMessageId, metadata?.messageId, [tempMessageId]));
+        return;
+      }
+
+      // The connection dropped mid-answer - reattach to the generation still running on the server
+      if (!streamError && metadata?.messageId && conversationId && await resumeGeneration(conversationId, metadata.messageId, lastEventId, streamingMessageId)) {
+        return;
+      }
+
+      console.error("Error generating response:", error);
+
+      // Replace the streaming message with an error message
+      const errorContent = `I apologize, but I'm having trouble connecting to the AI service right now. This might be due to API rate limits or service availability. Please try again in a moment, or contact support if the issue persists.`;
+      update(streamingMessageId, () => createFailedReply(metadata?.messageId || `msg_${Date.now() + 1}`, errorContent));
+    } finally {
+      setIsGenerating(false);
+      setIsStreaming(false);
+      abortControllerRef.current = null;
+      activeGenerationIdRef.current = null;
+
+      // Refresh the message tree after sending message
+      if (conversationId) {
+        await fetchMessageTree(conversationId);
+      }
+
+      if (createdConversation) {
+        onConversationCreated?.(createdConversation);
+      }
+    }
+  };
+
+  return {
+    conversations,
+    setConversations,
+    currentConversationId,
+    setCurrentConversationId,
+    currentConversation,
+    currentMessages,
+    isGenerating,
+    isStreaming,
+    isLoadingConversations,
+    isLoadingMoreConversations,
+    hasMoreConversations: !!conversationsCursor,
+    messageTree,
+    setMessageTree,
+    modelSettings,
+    setModelSettings,
+    highlightedMessageId,
+    setHighlightedMessageId,
+    messagesEndRef,
+    fetchConversations,
+    loadMoreConversations,
+    fetchConversationMessages,
+    jumpToMessage,
+    switchToSibling,
+    startNewChat,
+    handleMoveConversation,
+    handleProjectDeleted,
+    handleBulkAction,
+    handleDeleteConversation,
+    handleRenameConversation,
+    handleModelSettingsChange,
+    stopGeneration,
+    continueResponse,
+    editMessage,
+    regenerateResponse,
+    switchToVersion,
+    branchInNewChat,
+    copyToClipboard,
+    likeMessage,
+    dislikeMessage,
+    sendMessage,
+  };
+}
@@ -0,0 +1,8 @@
+// Runs once when a server instance starts
+export async function register() {
+  // Background jobs need Node and MongoDB, not the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { deletionService } = await import("@/lib/services/deletion");
+    deletionService.startSweeping();
+  }
+}
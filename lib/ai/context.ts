@@ -0,0 +1,167 @@
+// Context window management shared by all chat providers
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+import type { MultimodalMessage } from "./types";
+
+// Used when a model doesn't declare its context window
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Output budget kept free when the conversation has no max tokens setting
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+// Chat formatting overhead: role/separator tokens per message, plus the
+// tokens that prime the assistant's reply
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Image cost per OpenAI's vision pricing: a flat base plus a cost per 512px tile
+const IMAGE_BASE_TOKENS = 85;
+const IMAGE_TILE_TOKENS = 170;
+// Stored images don't record their size, so assume a typical 1024x1024 upload
+const DEFAULT_IMAGE_SIZE = 1024;
+
+export interface ContextWindowOptions {
+  model?: string;
+  // Total tokens the model accepts (prompt + completion)
+  contextWindow?: number;
+  // The conversation's max tokens setting, reserved for the reply
+  maxOutputTokens?: number;
+  // Extra system text sent alongside the messages (e.g. memory context)
+  context?: string;
+  // Prompt tokens set aside for text added after fitting (e.g. a summary)
+  reservedPromptTokens?: number;
+}
+
+export interface ContextUsage {
+  contextWindow: number;
+  reservedOutputTokens: number;
+  promptTokens: number;
+  droppedMessages: number;
+  droppedTokens: number;
+  // Dropped messages that are covered by a summary instead
+  summarizedMessages?: number;
+}
+
+export interface ContextWindowResult {
+  messages: MultimodalMessage[];
+  usage: ContextUsage;
+}
+
+// GPT-4o and newer OpenAI models use o200k; older ones use cl100k. Other
+// providers' tokenizers aren't available, so o200k serves as a close estimate.
+function getTokenCounter(model?: string): (text: string) => number {
+  if (model && /^(gpt-4(?!o|\.)|gpt-3\.5)/.test(model)) {
+    return countCl100kTokens;
+  }
+  return countO200kTokens;
+}
+
+export function countTextTokens(text: string, model?: string): number {
+  return getTokenCounter(model)(text);
+}
+
+/**
+ * Token cost of one image at the given detail level.
+ * High detail fits the image in 2048x2048, scales the short side to 768px,
+ * then charges per 512px tile.
+ */
+export function estimateImageTokens(
+  detail: "low" | "high" | "auto" = "auto",
+  width: number = DEFAULT_IMAGE_SIZE,
+  height: number = DEFAULT_IMAGE_SIZE
+): number {
+  if (detail === "low") {
+    return IMAGE_BASE_TOKENS;
+  }
+
+  const fitScale = Math.min(1, 2048 / Math.max(width, height));
+  let scaledWidth = width * fitScale;
+  let scaledHeight = height * fitScale;
+
+  const shortScale = Math.min(1, 768 / Math.min(scaledWidth, scaledHeight));
+  scaledWidth *= shortScale;
+  scaledHeight *= shortScale;
+
+  const tiles = Math.ceil(scaledWidth / 512) * Math.ceil(scaledHeight / 512);
+  return IMAGE_BASE_TOKENS + tiles * IMAGE_TILE_TOKENS;
+}
+
+function countMessageTokens(message: MultimodalMessage, countTokens: (text: string) => number): number {
+  let tokens = TOKENS_PER_MESSAGE + countTokens(message.role);
+
+  if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (part.type === 'text' && part.text) {
+        tokens += countTokens(part.text);
+      } else if (part.type === 'image_url') {
+        tokens += estimateImageTokens(part.image_url?.detail);
+      }
+    }
+  } else {
+    tokens += countTokens(message.content);
+  }
+
+  return tokens;
+}
+
+/**
+ * Fit a conversation into the model's context window.
+ * System messages and the newest message are always kept; older turns are
+ * dropped oldest-first once the prompt would eat into the reply budget.
+ */
+export function manageContextWindow(
+  messages: Array<MultimodalMessage>,
+  options: ContextWindowOptions = {}
+): ContextWindowResult {
+  const countTokens = getTokenCounter(options.model);
+  const contextWindow = options.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const reservedOutputTokens = Math.min(
+    options.maxOutputTokens || DEFAULT_OUTPUT_RESERVE,
+    Math.floor(contextWindow / 2)
+  );
+  const promptBudget = contextWindow - reservedOutputTokens - (options.reservedPromptTokens || 0);
+
+  const managedMessages: MultimodalMessage[] = [];
+  let totalTokens = REPLY_PRIMING_TOKENS;
+
+  // Memory context is sent as its own system message
+  if (options.context) {
+    totalTokens += countMessageTokens({ role: "system", content: `Context: ${options.context}` }, countTokens);
+  }
+
+  // Always keep system messages
+  const systemMessages = messages.filter(msg => msg.role === "system");
+  managedMessages.push(...systemMessages);
+  totalTokens += systemMessages.reduce((sum, msg) => sum + countMessageTokens(msg, countTokens), 0);
+
+  // Process messages from newest to oldest, keeping within token limit
+  const nonSystemMessages = messages.filter(msg => msg.role !== "system").reverse();
+  let droppedMessages = 0;
+  let droppedTokens = 0;
+
+  for (const message of nonSystemMessages) {
+    const messageTokens = countMessageTokens(message, countTokens);
+    const isNewest = message === nonSystemMessages[0];
+
+    // Once one turn doesn't fit, drop everything older so the history stays contiguous
+    if (droppedMessages > 0 || (!isNewest && totalTokens + messageTokens > promptBudget)) {
+      droppedMessages++;
+      droppedTokens += messageTokens;
+      continue;
+    }
+
+    managedMessages.splice(systemMessages.length, 0, message); // Keep chronological order after system messages
+    totalTokens += messageTokens;
+  }
+
+  return {
+    messages: managedMessages,
+    usage: {
+      contextWindow,
+      reservedOutputTokens,
+      promptTokens: totalTokens,
+      droppedMessages,
+      droppedTokens,
+    },
+  };
+}
@@ -0,0 +1,80 @@
+// Build the system prompt from an assistant persona, a project and a user's custom instructions
+import type { CustomInstructions, IAssistant, IProject, ReferenceFile } from "@/lib/db/models";
+
+// Same limit as the schema; longer input is rejected rather than cut off
+export const CUSTOM_INSTRUCTIONS_MAX_LENGTH = 1500;
+
+// System messages are never trimmed from the context, so cap reference file text.
+// The budget is shared by the assistant's and the project's files.
+const REFERENCE_TEXT_MAX_LENGTH = 12000;
+
+interface ReferenceBudget {
+  remaining: number;
+}
+
+function buildReferenceSection(files: ReferenceFile[], owner: string, budget: ReferenceBudget): string | undefined {
+  const references: string[] = [];
+  for (const file of files) {
+    const text = (file.analysis?.extractedText || file.analysis?.text || file.analysis?.summary || "").trim();
+    if (!text || budget.remaining <= 0) continue;
+
+    const excerpt = text.slice(0, budget.remaining);
+    budget.remaining -= excerpt.length;
+    references.push(`[File: ${file.name}]\n${excerpt}${excerpt.length < text.length ? "\n[truncated]" : ""}`);
+  }
+  return references.length > 0
+    ? `Reference material attached to this ${owner}:\n\n${references.join("\n\n")}`
+    : undefined;
+}
+
+function buildAssistantPrompt(assistant: IAssistant, budget: ReferenceBudget): string[] {
+  const sections: string[] = [];
+
+  const instructions = assistant.instructions?.trim();
+  sections.push(instructions || `You are ${assistant.name}, a helpful assistant.`);
+
+  const references = buildReferenceSection(assistant.files || [], "assistant", budget);
+  if (references) sections.push(references);
+
+  return sections;
+}
+
+function buildProjectPrompt(project: IProject, budget: ReferenceBudget): string[] {
+  const sections: string[] = [];
+
+  const instructions = project.instructions?.trim();
+  if (instructions) {
+    sections.push(`This conversation is part of the project "${project.name}". Follow the project's instructions:\n${instructions}`);
+  }
+
+  const references = buildReferenceSection(project.files || [], "project", budget);
+  if (references) sections.push(references);
+
+  return sections;
+}
+
+export function buildSystemPrompt(
+  instructions?: CustomInstructions | null,
+  assistant?: IAssistant | null,
+  project?: IProject | null
+): string | undefined {
+  const budget: ReferenceBudget = { remaining: REFERENCE_TEXT_MAX_LENGTH };
+  const sections: string[] = [
+    ...(assistant ? buildAssistantPrompt(assistant, budget) : []),
+    ...(project ? buildProjectPrompt(project, budget) : []),
+  ];
+
+  if (instructions && instructions.enabled !== false) {
+    const aboutMe = instructions.aboutMe?.trim();
+    if (aboutMe) {
+      sections.push(`The user provided the following information about themselves. Use it when it is relevant to the request:\n${aboutMe}`);
+    }
+
+    const responseStyle = instructions.responseStyle?.trim();
+    if (responseStyle) {
+      sections.push(`The user provided the following instructions for how you should respond. Follow them unless the request says otherwise:\n${responseStyle}`);
+    }
+  }
+
+  return sections.length > 0 ? sections.join("\n\n") : undefined;
+}
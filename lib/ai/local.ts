@@ -0,0 +1,21 @@
+// Local provider for any OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM)
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+// Comma-separated list of model names served by the local endpoint
+const localModels = (process.env.LOCAL_LLM_MODELS || "llama3.1")
+  .split(",")
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Context length the local server was started with (e.g. Ollama's num_ctx)
+const localContextWindow = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || undefined;
+
+export const localProvider = new OpenAICompatibleProvider({
+  id: "local",
+  name: "Local",
+  baseURL: process.env.LOCAL_LLM_BASE_URL,
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+  requiresApiKey: false,
+  defaultModel: localModels[0],
+  models: localModels.map(model => ({ id: model, name: model, contextWindow: localContextWindow })),
+});
@@ -0,0 +1,73 @@
+// Convert stored messages into the format expected by the AI providers
+import type { IMessage } from "@/lib/db/models";
+import type { MultimodalMessage } from "./types";
+
+export function toMultimodalMessages(conversationMessages: IMessage[]): MultimodalMessage[] {
+  return conversationMessages
+    .filter(msg => msg.content && msg.content.trim().length > 0) // Filter out empty messages
+    .map((msg): MultimodalMessage => {
+      // Build content for multimodal support
+      let content: any = msg.content.trim();
+      
+      // Add file content if files are attached
+      if (msg.files && msg.files.length > 0) {
+        const contentParts: any[] = [];
+        
+        // Add the text content first
+        if (msg.content.trim()) {
+          contentParts.push({
+            type: 'text',
+            text: msg.content.trim()
+          });
+        }
+        
+        // Add file content - handle images and files differently
+        for (const file of msg.files) {
+          if (file.type.startsWith('image/')) {
+            // For images, add as image_url content for multimodal processing
+            contentParts.push({
+              type: 'image_url',
+              image_url: {
+                url: file.url,
+                detail: 'high'
+              }
+            });
+            
+            // Also add OCR text if available as additional context
+            if (file.analysis?.text && file.analysis.text.trim()) {
+              contentParts.push({
+                type: 'text',
+                text: `[Image: ${file.name}]\nExtracted text from image:\n${file.analysis.text}`
+              });
+            }
+          } else {
+            // For non-image files, add as text content only
+            const fileText = file.analysis?.extractedText || file.analysis?.text || file.analysis?.summary || '';
+            if (fileText && fileText.trim().length > 0) {
+              contentParts.push({
+                type: 'text',
+                text: `[File: ${file.name}]\n\n${fileText}`
+              });
+            } else {
+              contentParts.push({
+                type: 'text',
+                text: `[File: ${file.name}]`
+              });
+            }
+          }
+        }
+        
+        // If we have multiple content parts, use array format
+        if (contentParts.length > 1) {
+          content = contentParts;
+        } else if (contentParts.length === 1) {
+          content = contentParts[0].text;
+        }
+      }
+      
+      return {
+        role: msg.role as "user" | "assistant" | "system",
+        content: content
+      };
+    });
+}
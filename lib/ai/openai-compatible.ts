@@ -0,0 +1,275 @@
+// Base provider for any endpoint that speaks the OpenAI chat completions API
+import { createOpenAI } from "@ai-sdk/openai";
+import { generateText, streamText, type CoreMessage } from "ai";
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type {
+  ChatProvider,
+  ChatRequestOptions,
+  FinishReason,
+  ModelInfo,
+  MultimodalMessage,
+  ProviderId,
+} from "./types";
+
+export interface OpenAICompatibleConfig {
+  id: ProviderId;
+  name: string;
+  baseURL?: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  defaultModel: string;
+  models: ModelInfo[];
+  // Local servers usually accept any key, so they don't need one configured
+  requiresApiKey?: boolean;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+// Helper function to check if messages contain multimodal content
+function hasMultimodalContent(messages: Array<MultimodalMessage>): boolean {
+  return messages.some(msg =>
+    Array.isArray(msg.content) &&
+    msg.content.some(part => part.type === 'image_url')
+  );
+}
+
+// Flatten multimodal content to plain text for the Vercel AI SDK text path
+function toTextMessages(messages: Array<MultimodalMessage>, context?: string): CoreMessage[] {
+  const formattedMessages = messages.map(msg => ({
+    role: msg.role as "user" | "assistant" | "system",
+    content: typeof msg.content === 'string' ? msg.content :
+      Array.isArray(msg.content) ?
+        msg.content.filter(part => part.type === 'text').map(part => part.text).join(' ') :
+        msg.content
+  })) as CoreMessage[];
+
+  // Add context if provided
+  if (context) {
+    formattedMessages.unshift({
+      role: "system",
+      content: `Context: ${context}`
+    });
+  }
+
+  return formattedMessages;
+}
+
+// Map finish reasons from the AI SDK and the chat completions API to one set
+function normalizeFinishReason(reason: string | null | undefined): FinishReason | undefined {
+  switch (reason) {
+    case undefined:
+    case null:
+      return undefined;
+    case "stop":
+    case "length":
+      return reason;
+    case "content-filter":
+    case "content_filter":
+      return "content-filter";
+    default:
+      return "other";
+  }
+}
+
+// Convert messages to the chat completions format, keeping image parts intact
+function toOpenAIMessages(messages: Array<MultimodalMessage>, context?: string): ChatCompletionMessageParam[] {
+  const openaiMessages = messages.map(msg => ({
+    role: msg.role,
+    content: msg.content,
+  })) as ChatCompletionMessageParam[];
+
+  // Add context if provided
+  if (context) {
+    openaiMessages.unshift({
+      role: "system",
+      content: `Context: ${context}`
+    });
+  }
+
+  return openaiMessages;
+}
+
+export class OpenAICompatibleProvider implements ChatProvider {
+  readonly id: ProviderId;
+  readonly name: string;
+  readonly defaultModel: string;
+  readonly models: ModelInfo[];
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.defaultModel = config.defaultModel;
+    this.models = config.models;
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    if (this.config.requiresApiKey === false) {
+      return !!this.config.baseURL;
+    }
+    return !!this.config.apiKey;
+  }
+
+  private assertConfigured() {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.name} provider is not configured`);
+    }
+  }
+
+  private getLanguageModel(model: string) {
+    const provider = createOpenAI({
+      name: this.id,
+      baseURL: this.config.baseURL,
+      apiKey: this.config.apiKey || "not-needed",
+      headers: this.config.headers,
+    });
+    return provider.chat(model);
+  }
+
+  private getClient(): OpenAI {
+    return new OpenAI({
+      baseURL: this.config.baseURL,
+      apiKey: this.config.apiKey || "not-needed",
+      defaultHeaders: this.config.headers,
+    });
+  }
+
+  /**
+   * Generate response using the chat completions API directly for multimodal content
+   */
+  private async generateMultimodalResponse(
+    messages: Array<MultimodalMessage>,
+    options: ChatRequestOptions
+  ): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model,
+      messages: toOpenAIMessages(messages, options.context),
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+    }, { signal: options.abortSignal });
+
+    return response.choices[0]?.message?.content || "";
+  }
+
+  /**
+   * Stream response tokens from the chat completions API for multimodal content
+   */
+  private async *streamMultimodalResponse(
+    messages: Array<MultimodalMessage>,
+    options: ChatRequestOptions
+  ): AsyncGenerator<string, FinishReason | undefined> {
+    const stream = await this.getClient().chat.completions.create({
+      model: options.model,
+      messages: toOpenAIMessages(messages, options.context),
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      stream: true,
+    }, { signal: options.abortSignal });
+
+    let finishReason: string | null | undefined;
+    for await (const part of stream) {
+      const delta = part.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+      finishReason = part.choices[0]?.finish_reason || finishReason;
+    }
+
+    return normalizeFinishReason(finishReason);
+  }
+
+  async generateChatResponse(
+    messages: Array<MultimodalMessage>,
+    options: ChatRequestOptions
+  ): Promise<string> {
+    try {
+      this.assertConfigured();
+
+      // Check if we have multimodal content
+      if (hasMultimodalContent(messages)) {
+        return await this.generateMultimodalResponse(messages, options);
+      }
+
+      const { text } = await generateText({
+        model: this.getLanguageModel(options.model),
+        messages: toTextMessages(messages, options.context),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens,
+        topP: options.topP,
+        abortSignal: options.abortSignal,
+      });
+
+      return text;
+
+    } catch (error) {
+      console.error(`${this.name} API error:`, error);
+      throw error;
+    }
+  }
+
+  async *streamChatResponse(
+    messages: Array<MultimodalMessage>,
+    options: ChatRequestOptions
+  ): AsyncGenerator<string, FinishReason | undefined> {
+    try {
+      this.assertConfigured();
+
+      // Check if we have multimodal content
+      if (hasMultimodalContent(messages)) {
+        return yield* this.streamMultimodalResponse(messages, options);
+      }
+
+      const result = streamText({
+        model: this.getLanguageModel(options.model),
+        messages: toTextMessages(messages, options.context),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens,
+        topP: options.topP,
+        abortSignal: options.abortSignal,
+      });
+
+      // Yield each chunk from the text stream
+      for await (const chunk of result.textStream) {
+        yield chunk;
+      }
+
+      return normalizeFinishReason(await result.finishReason);
+
+    } catch (error) {
+      console.error(`${this.name} streaming error:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a short prompt to verify the provider is reachable
+   */
+  async testConnection(model: string = this.defaultModel): Promise<{ success: boolean; model?: string; error?: string }> {
+    try {
+      if (!this.isConfigured()) {
+        return { success: false, error: `${this.name} provider is not configured` };
+      }
+
+      const testMessages = [
+        { role: "user" as const, content: "Hello, this is a test message. Please respond with 'Test successful'." }
+      ];
+
+      const response = await this.generateChatResponse(testMessages, { model });
+
+      if (response && response.length > 0) {
+        return { success: true, model };
+      } else {
+        return { success: false, error: "Empty response received" };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      };
+    }
+  }
+}
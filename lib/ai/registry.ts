@@ -0,0 +1,85 @@
+// Registry of chat providers, selected per request
+import { openAIProvider } from "./openai";
+import { openRouterProvider } from "./openrouter";
+import { localProvider } from "./local";
+import type { ChatProvider, ModelInfo, ModelSettings, ProviderId } from "./types";
+
+const providers: Record<ProviderId, ChatProvider> = {
+  openai: openAIProvider,
+  openrouter: openRouterProvider,
+  local: localProvider,
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && value in providers;
+}
+
+export function getProvider(id: ProviderId): ChatProvider {
+  return providers[id];
+}
+
+// Providers that have the credentials/endpoint they need, with their models
+export function listAvailableProviders(): Array<{ id: ProviderId; name: string; defaultModel: string; models: ModelInfo[] }> {
+  return Object.values(providers)
+    .filter(provider => provider.isConfigured())
+    .map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      models: provider.models,
+    }));
+}
+
+// Look up a model's details, e.g. its context window; custom model IDs return undefined
+export function getModelInfo(settings: Pick<ModelSettings, "provider" | "model">): ModelInfo | undefined {
+  return providers[settings.provider]?.models.find(model => model.id === settings.model);
+}
+
+function getDefaultProviderId(): ProviderId {
+  const configured = process.env.DEFAULT_CHAT_PROVIDER;
+  if (isProviderId(configured)) {
+    return configured;
+  }
+
+  // Fall back to the first provider that is ready to use
+  const firstConfigured = Object.values(providers).find(provider => provider.isConfigured());
+  return firstConfigured?.id || "openai";
+}
+
+// Clamp a numeric parameter to [min, max], dropping anything that isn't a number
+function clampParameter(value: unknown, min: number, max: number): number | undefined {
+  const number = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    return undefined;
+  }
+  return Math.min(max, Math.max(min, number));
+}
+
+/**
+ * Resolve the provider, model and generation parameters for a request.
+ * Unknown providers fall back to the default one; a missing model falls back
+ * to DEFAULT_CHAT_MODEL (for the default provider) or the provider's default.
+ * Out-of-range parameters are clamped and invalid ones dropped.
+ */
+export function resolveModelSettings(requested?: Partial<Record<keyof ModelSettings, unknown>> | null): ModelSettings {
+  const defaultProviderId = getDefaultProviderId();
+  const providerId = isProviderId(requested?.provider) ? requested.provider : defaultProviderId;
+  const provider = providers[providerId];
+
+  let model = provider.defaultModel;
+  if (typeof requested?.model === "string" && requested.model.trim()) {
+    model = requested.model.trim();
+  } else if (providerId === defaultProviderId && process.env.DEFAULT_CHAT_MODEL) {
+    model = process.env.DEFAULT_CHAT_MODEL;
+  }
+
+  const maxTokens = clampParameter(requested?.maxTokens, 1, 128000);
+
+  return {
+    provider: providerId,
+    model,
+    temperature: clampParameter(requested?.temperature, 0, 2),
+    maxTokens: maxTokens !== undefined ? Math.round(maxTokens) : undefined,
+    topP: clampParameter(requested?.topP, 0, 1),
+  };
+}
@@ -0,0 +1,56 @@
+// Shared types for the chat provider layer
+
+export interface MultimodalMessage {
+  role: "user" | "assistant" | "system";
+  content: string | Array<{
+    type: 'text' | 'image_url';
+    text?: string;
+    image_url?: {
+      url: string;
+      detail?: 'low' | 'high' | 'auto';
+    };
+  }>;
+}
+
+export type ProviderId = "openai" | "openrouter" | "local";
+
+// Why the model stopped generating; "length" means it hit the max-token limit
+export type FinishReason = "stop" | "length" | "content-filter" | "other";
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  supportsVision?: boolean;
+  // Total tokens the model accepts (prompt + completion)
+  contextWindow?: number;
+}
+
+// Model and generation parameters persisted per conversation
+export interface ModelSettings {
+  provider: ProviderId;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+export interface ChatRequestOptions {
+  model: string;
+  context?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  abortSignal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  name: string;
+  defaultModel: string;
+  models: ModelInfo[];
+  isConfigured(): boolean;
+  generateChatResponse(messages: Array<MultimodalMessage>, options: ChatRequestOptions): Promise<string>;
+  // Yields text chunks and returns the finish reason once the stream ends
+  streamChatResponse(messages: Array<MultimodalMessage>, options: ChatRequestOptions): AsyncGenerator<string, FinishReason | undefined>;
+  testConnection(model?: string): Promise<{ success: boolean; model?: string; error?: string }>;
+}
@@ -0,0 +1,51 @@
+// Validation shared by the assistant routes
+import { resolveModelSettings } from "@/lib/ai/registry";
+import type { IAssistant } from "@/lib/db/models";
+import { optionalString, parseReferenceFiles } from "@/lib/validation";
+
+const MAX_STARTER_PROMPTS = 6;
+
+type AssistantInput = Partial<Pick<IAssistant, "name" | "description" | "instructions" | "modelSettings" | "starterPrompts" | "files">>;
+
+/**
+ * Pick the editable fields from a request body. Only fields that are present
+ * are returned, so the result can be used for partial updates.
+ * Throws an Error with a user-facing message when a field is invalid.
+ */
+export function parseAssistantInput(body: Record<string, unknown>, requireName: boolean): AssistantInput {
+  const input: AssistantInput = {};
+
+  const name = optionalString(body.name, "Name", 100);
+  if (name !== undefined) {
+    if (!name) throw new Error("Name is required");
+    input.name = name;
+  } else if (requireName) {
+    throw new Error("Name is required");
+  }
+
+  const description = optionalString(body.description, "Description", 500);
+  if (description !== undefined) input.description = description;
+
+  const instructions = optionalString(body.instructions, "Instructions", 8000);
+  if (instructions !== undefined) input.instructions = instructions;
+
+  if (body.modelSettings !== undefined) {
+    input.modelSettings = body.modelSettings ? resolveModelSettings(body.modelSettings) : undefined;
+  }
+
+  if (body.starterPrompts !== undefined) {
+    if (!Array.isArray(body.starterPrompts)) {
+      throw new Error("Starter prompts must be a list");
+    }
+    input.starterPrompts = body.starterPrompts
+      .map((prompt, index) => optionalString(prompt, `Starter prompt ${index + 1}`, 300) || "")
+      .filter(Boolean)
+      .slice(0, MAX_STARTER_PROMPTS);
+  }
+
+  if (body.files !== undefined) {
+    input.files = parseReferenceFiles(body.files);
+  }
+
+  return input;
+}
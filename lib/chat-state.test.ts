@@ -0,0 +1,309 @@
+import { describe, it, expect } from "vitest";
+import {
+  type Conversation,
+  type Message,
+  type MessageTree,
+  updateMessage,
+  mergeConversationPage,
+  mergeBulkUpdate,
+  showBranch,
+  findSiblingId,
+  showVersion,
+  createStreamingMessage,
+  applyReplyEvent,
+  createFailedReply,
+  stopReply,
+  markContinuing,
+  applyResumedEvent,
+} from "@/lib/chat-state";
+
+function message(id: string, content: string): Message {
+  return { id, role: "user", content, timestamp: new Date("2025-01-01") };
+}
+
+function conversation(id: string, fields: Partial<Conversation> = {}): Conversation {
+  return { id, title: id, messages: [], updatedAt: new Date("2025-01-01"), ...fields };
+}
+
+describe("updateMessage", () => {
+  it("updates only the matching message of the matching conversation", () => {
+    const conversations = [
+      conversation("a", { messages: [message("m1", "hi"), message("m2", "there")] }),
+      conversation("b", { messages: [message("m1", "other")] }),
+    ];
+
+    const result = updateMessage(conversations, "a", "m2", m => ({ ...m, content: "you" }));
+
+    expect(result[0].messages.map(m => m.content)).toEqual(["hi", "you"]);
+    expect(result[0].messages[0]).toBe(conversations[0].messages[0]);
+    expect(result[1]).toBe(conversations[1]);
+  });
+
+  it("bumps the conversation's updatedAt", () => {
+    const conversations = [conversation("a", { messages: [message("m1", "hi")] })];
+
+    const result = updateMessage(conversations, "a", "m1", m => m);
+
+    expect(result[0].updatedAt.getTime()).toBeGreaterThan(conversations[0].updatedAt.getTime());
+  });
+
+  it("doesn't modify the given conversations", () => {
+    const conversations = [conversation("a", { messages: [message("m1", "hi")] })];
+
+    updateMessage(conversations, "a", "m1", m => ({ ...m, content: "changed" }));
+
+    expect(conversations[0].messages[0].content).toBe("hi");
+  });
+
+  it("leaves everything as is without a current conversation", () => {
+    const conversations = [conversation("a", { messages: [message("m1", "hi")] })];
+
+    const result = updateMessage(conversations, null, "m1", m => ({ ...m, content: "changed" }));
+
+    expect(result[0]).toBe(conversations[0]);
+  });
+});
+
+describe("mergeConversationPage", () => {
+  it("puts the page first and keeps loaded conversations past it", () => {
+    const loaded = [conversation("a"), conversation("b"), conversation("c")];
+    const page = [conversation("d"), conversation("b")];
+
+    const result = mergeConversationPage(loaded, page);
+
+    expect(result.map(c => c.id)).toEqual(["d", "b", "a", "c"]);
+  });
+
+  it("keeps the messages of loaded conversations and takes the fetched fields", () => {
+    const messages = [message("m1", "hi")];
+    const updatedAt = new Date("2025-02-01");
+    const loaded = [conversation("a", { messages, activePath: ["m1"], pinned: false })];
+    const page = [conversation("a", { title: "Renamed", updatedAt, projectId: "p1", pinned: true })];
+
+    const [result] = mergeConversationPage(loaded, page);
+
+    expect(result).toMatchObject({ title: "Renamed", updatedAt, projectId: "p1", pinned: true, activePath: ["m1"] });
+    expect(result.messages).toBe(messages);
+  });
+});
+
+describe("mergeBulkUpdate", () => {
+  it("merges the new project, pin and archive state into loaded conversations", () => {
+    const messages = [message("m1", "hi")];
+    const loaded = [conversation("a", { messages }), conversation("b")];
+    const updated = [conversation("a", { title: "ignored", projectId: "p1", pinned: true, archived: true })];
+
+    const result = mergeBulkUpdate(loaded, updated);
+
+    expect(result[0]).toMatchObject({ id: "a", title: "a", projectId: "p1", pinned: true, archived: true });
+    expect(result[0].messages).toBe(messages);
+    expect(result[1]).toBe(loaded[1]);
+  });
+
+  it("adds unarchived conversations that weren't loaded to the top", () => {
+    const loaded = [conversation("a")];
+    const updated = [conversation("a", { archived: false }), conversation("b", { archived: false })];
+
+    const result = mergeBulkUpdate(loaded, updated);
+
+    expect(result.map(c => c.id)).toEqual(["b", "a"]);
+  });
+
+  it("doesn't add archived conversations that weren't loaded", () => {
+    const loaded = [conversation("a")];
+    const updated = [conversation("b", { archived: true })];
+
+    const result = mergeBulkUpdate(loaded, updated);
+
+    expect(result.map(c => c.id)).toEqual(["a"]);
+  });
+});
+
+// Events a new reply's stream sends, in order
+const replyEvents = [
+  { type: "metadata", conversationId: "a", messageId: "m2", userMessageId: "m1", memoryIds: ["mem1"] },
+  { type: "chunk", content: "Hel" },
+  { type: "chunk", content: "lo" },
+  { type: "done", fullResponse: "Hello", status: "completed", finishReason: "stop" },
+];
+
+// Feed stream events to the placeholder the way the chat hook does
+function streamReply(conversations: Conversation[], events: Record<string, any>[]) {
+  let metadata: Record<string, any> | undefined;
+  for (const data of events) {
+    if (data.type === "metadata") {
+      metadata = data;
+    } else {
+      conversations = updateMessage(conversations, "a", "streaming", m => applyReplyEvent(m, data, metadata));
+    }
+  }
+  return conversations;
+}
+
+describe("streaming a new reply", () => {
+  const start = () => [conversation("a", { messages: [message("m1", "Hi"), createStreamingMessage("streaming")] })];
+
+  it("appends chunks to the placeholder", () => {
+    const [result] = streamReply(start(), replyEvents.slice(0, 3));
+
+    expect(result.messages[1]).toMatchObject({ id: "streaming", role: "assistant", content: "Hello" });
+  });
+
+  it("replaces the placeholder with the stored message when done", () => {
+    const [result] = streamReply(start(), replyEvents);
+
+    expect(result.messages[1]).toMatchObject({
+      id: "m2",
+      content: "Hello",
+      status: "completed",
+      finishReason: "stop",
+      memoryIds: ["mem1"],
+      currentVersionIndex: 0,
+    });
+    expect(result.messages[1].versions).toEqual([expect.objectContaining({ content: "Hello", isCurrent: true })]);
+  });
+
+  it("shows an explanation in place of a reply that failed", () => {
+    const conversations = streamReply(start(), replyEvents.slice(0, 2));
+
+    const [result] = updateMessage(conversations, "a", "streaming", () => createFailedReply("m2", "Sorry"));
+
+    expect(result.messages[1]).toMatchObject({ id: "m2", content: "Sorry", status: "error" });
+  });
+});
+
+describe("stopReply", () => {
+  const start = () => [conversation("a", {
+    messages: [message("m0", "Earlier"), message("temp", "Hi"), { ...createStreamingMessage("streaming"), content: "Hel" }],
+  })];
+
+  it("keeps the partial text as stopped once the server stored the reply", () => {
+    const [result] = stopReply(start(), "a", "streaming", "m2", ["temp"]);
+
+    expect(result.messages.map(m => m.id)).toEqual(["m0", "temp", "m2"]);
+    expect(result.messages[2]).toMatchObject({ content: "Hel", status: "stopped" });
+  });
+
+  it("removes the unsaved messages when stopped before the server stored them", () => {
+    const [result] = stopReply(start(), "a", "streaming", undefined, ["temp"]);
+
+    expect(result.messages.map(m => m.id)).toEqual(["m0"]);
+  });
+});
+
+describe("continuing a response", () => {
+  const stopped: Message = { ...message("m2", "Hel"), role: "assistant", status: "stopped", finishReason: "length" };
+
+  it("marks the message as streaming again", () => {
+    expect(markContinuing(stopped)).toMatchObject({ content: "Hel", status: "streaming", finishReason: undefined });
+  });
+
+  it("appends the new text to the earlier text", () => {
+    const events = [
+      { type: "metadata", messageId: "m2", initialContent: "Hel", continued: true },
+      { type: "chunk", content: "lo" },
+      { type: "done", fullResponse: "Hello", status: "completed", finishReason: "stop" },
+    ];
+
+    const streamed: Message[] = [];
+    events.reduce((m, data) => {
+      const next = applyResumedEvent(m, data, "m2");
+      streamed.push(next);
+      return next;
+    }, markContinuing(stopped));
+
+    expect(streamed.map(m => m.content)).toEqual(["Hel", "Hello", "Hello"]);
+    expect(streamed[2]).toMatchObject({ id: "m2", status: "completed", finishReason: "stop" });
+  });
+
+  it("marks the message as failed on an error event", () => {
+    const result = applyResumedEvent(markContinuing(stopped), { type: "error", error: "boom" }, "m2");
+
+    expect(result).toMatchObject({ content: "Hel", status: "error" });
+  });
+});
+
+describe("resuming a generation", () => {
+  it("replays from the start over partial text saved before a reload", () => {
+    const saved: Message = { ...message("m2", "He"), role: "assistant", status: "streaming" };
+
+    const result = [
+      { type: "metadata", messageId: "m2", initialContent: "" },
+      { type: "chunk", content: "Hel" },
+      { type: "chunk", content: "lo" },
+    ].reduce((m, data) => applyResumedEvent(m, data, "m2"), saved);
+
+    expect(result.content).toBe("Hello");
+  });
+
+  it("gives a placeholder the stored message's id when done", () => {
+    const result = applyResumedEvent(
+      { ...createStreamingMessage("streaming"), content: "Hello" },
+      { type: "done", fullResponse: "Hello!", status: "completed" },
+      "m2"
+    );
+
+    expect(result).toMatchObject({ id: "m2", content: "Hello!", status: "completed" });
+  });
+
+  it("ignores unknown events", () => {
+    const saved = message("m2", "Hello");
+
+    expect(applyResumedEvent(saved, { type: "ping" }, "m2")).toBe(saved);
+  });
+});
+
+describe("switching branches", () => {
+  // r1 has two replies, a1 and a2; r1 and r2 are two versions of the first message
+  const tree: MessageTree = {
+    rootIds: ["r1", "r2"],
+    nodes: {
+      r1: { id: "r1", parentId: null, role: "user", children: ["a1", "a2"], siblingIndex: 0, siblingCount: 2, preview: "", timestamp: "" },
+      r2: { id: "r2", parentId: null, role: "user", children: [], siblingIndex: 1, siblingCount: 2, preview: "", timestamp: "" },
+      a1: { id: "a1", parentId: "r1", role: "assistant", children: [], siblingIndex: 0, siblingCount: 2, preview: "", timestamp: "" },
+      a2: { id: "a2", parentId: "r1", role: "assistant", children: [], siblingIndex: 1, siblingCount: 2, preview: "", timestamp: "" },
+    },
+  };
+
+  it("finds the neighbouring sibling of a message", () => {
+    expect(findSiblingId(tree, "a1", 1)).toBe("a2");
+    expect(findSiblingId(tree, "a2", -1)).toBe("a1");
+    expect(findSiblingId(tree, "r1", 1)).toBe("r2");
+  });
+
+  it("finds nothing past the first or last sibling", () => {
+    expect(findSiblingId(tree, "a1", -1)).toBeUndefined();
+    expect(findSiblingId(tree, "r2", 1)).toBeUndefined();
+    expect(findSiblingId(tree, "missing", 1)).toBeUndefined();
+  });
+
+  it("shows the messages of the new branch", () => {
+    const conversations = [
+      conversation("a", { messages: [message("r1", "Hi"), message("a1", "Hello")], activePath: ["r1", "a1"] }),
+      conversation("b"),
+    ];
+    const messages = [message("r1", "Hi"), message("a2", "Hey")];
+
+    const result = showBranch(conversations, "a", messages, ["r1", "a2"]);
+
+    expect(result[0]).toMatchObject({ messages, activePath: ["r1", "a2"] });
+    expect(result[1]).toBe(conversations[1]);
+  });
+
+  it("shows another version of a message", () => {
+    const versioned: Message = {
+      ...message("m1", "Second"),
+      versions: [
+        { content: "First", timestamp: new Date(), isCurrent: false },
+        { content: "Second", timestamp: new Date(), isCurrent: true },
+      ],
+      currentVersionIndex: 1,
+    };
+
+    const result = showVersion(versioned, 0);
+
+    expect(result.content).toBe("First");
+    expect(result.currentVersionIndex).toBe(0);
+    expect(result.versions?.map(v => v.isCurrent)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,291 @@
+// Client-side conversation state shared by the chat pages, and the pure
+// updates applied to it while loading, streaming and switching branches
+
+export interface UploadedFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  cloudinaryUrl?: string;
+  uploadcareId?: string;
+  preview?: string;
+  analysis?: {
+    text?: string;
+    extractedData?: any;
+    summary?: string;
+  };
+  uploadedAt?: Date;
+}
+
+export interface Message {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  edited?: boolean;
+  files?: UploadedFile[];
+  versions?: {
+    content: string;
+    timestamp: Date;
+    isCurrent?: boolean;
+    isContextVersion?: boolean;
+    contextMessages?: {
+      id: string;
+      role: "user" | "assistant";
+      content: string;
+      timestamp: Date;
+      files?: UploadedFile[];
+    }[];
+  }[];
+  currentVersionIndex?: number;
+  status?: "streaming" | "completed" | "stopped" | "error";
+  finishReason?: "stop" | "length" | "content-filter" | "other";
+  memoryIds?: string[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+  updatedAt: Date;
+  activePath?: string[];
+  currentPage?: number;
+  totalPages?: number;
+  temporary?: boolean;
+  projectId?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  // Conversation and message this chat was branched from
+  forkedFrom?: { conversationId: string; messageId: string };
+}
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  children: string[];
+  siblingIndex: number;
+  siblingCount: number;
+  preview: string;
+  timestamp: string;
+}
+
+export interface MessageTree {
+  rootIds: string[];
+  nodes: Record<string, MessageTreeNode>;
+}
+
+// Transform a conversation from the API to match our interface
+export function toConversation(conv: any): Conversation {
+  return {
+    id: conv._id,
+    title: conv.title,
+    messages: [], // We'll load messages separately
+    updatedAt: new Date(conv.updatedAt),
+    temporary: conv.temporary,
+    projectId: conv.projectId,
+    pinned: conv.pinned,
+    archived: conv.archived,
+    forkedFrom: conv.forkedFrom,
+  };
+}
+
+// Transform a stored message from the API to match our interface
+export function toMessage(msg: any): Message {
+  return {
+    id: msg._id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.timestamp),
+    edited: msg.edited || false,
+    files: msg.files || [],
+    versions: msg.versions || [],
+    currentVersionIndex: msg.currentVersionIndex || 0,
+    status: msg.metadata?.status,
+    finishReason: msg.metadata?.finishReason,
+    memoryIds: msg.metadata?.memoryIds,
+  };
+}
+
+export function updateConversation(
+  conversations: Conversation[],
+  conversationId: string | null,
+  update: (conversation: Conversation) => Partial<Conversation>
+): Conversation[] {
+  return conversations.map(c => c.id === conversationId ? { ...c, ...update(c) } : c);
+}
+
+export function updateMessage(
+  conversations: Conversation[],
+  conversationId: string | null,
+  messageId: string,
+  update: (message: Message) => Message
+): Conversation[] {
+  return updateConversation(conversations, conversationId, c => ({
+    messages: c.messages.map(m => m.id === messageId ? update(m) : m),
+    updatedAt: new Date()
+  }));
+}
+
+// Merge a freshly fetched first page into the list, keeping conversations
+// that are already loaded (with their messages) and the ones past the page
+export function mergeConversationPage(loaded: Conversation[], page: Conversation[]): Conversation[] {
+  return [
+    ...page.map(conv => {
+      const existing = loaded.find(c => c.id === conv.id);
+      return existing
+        ? { ...existing, title: conv.title, updatedAt: conv.updatedAt, projectId: conv.projectId, pinned: conv.pinned }
+        : conv;
+    }),
+    ...loaded.filter(c => !page.some(conv => conv.id === c.id)),
+  ];
+}
+
+// Apply the result of a bulk action other than delete. Unarchived chats
+// may not have been loaded yet.
+export function mergeBulkUpdate(loaded: Conversation[], updated: Conversation[]): Conversation[] {
+  return [
+    ...updated.filter(conv => !conv.archived && !loaded.some(c => c.id === conv.id)),
+    ...loaded.map(conv => {
+      const match = updated.find(u => u.id === conv.id);
+      return match
+        ? { ...conv, projectId: match.projectId, pinned: match.pinned, archived: match.archived }
+        : conv;
+    }),
+  ];
+}
+
+// Show another branch of a conversation: its messages along the new active path
+export function showBranch(
+  conversations: Conversation[],
+  conversationId: string | null,
+  messages: Message[],
+  activePath: string[]
+): Conversation[] {
+  return updateConversation(conversations, conversationId, () => ({ messages, activePath }));
+}
+
+// The previous (-1) or next (1) sibling of a message where the conversation forks
+export function findSiblingId(tree: MessageTree, messageId: string, offset: number): string | undefined {
+  const node = tree.nodes[messageId];
+  if (!node) return undefined;
+
+  const siblings = node.parentId ? tree.nodes[node.parentId]?.children || [] : tree.rootIds;
+  return siblings[node.siblingIndex + offset];
+}
+
+export function showVersion(message: Message, versionIndex: number): Message {
+  return {
+    ...message,
+    versions: message.versions?.map((v, i) => ({ ...v, isCurrent: i === versionIndex })) || [],
+    currentVersionIndex: versionIndex,
+    content: message.versions?.[versionIndex]?.content || message.content
+  };
+}
+
+// Placeholder for a new reply, shown until the server's message replaces it
+export function createStreamingMessage(id: string): Message {
+  return {
+    id,
+    role: "assistant",
+    content: "",
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Apply an event of a new reply's stream to its placeholder. `metadata` is
+ * the stream's first event, which carries the id of the stored message.
+ * Errors are left to the caller, which replaces the placeholder.
+ */
+export function applyReplyEvent(message: Message, data: Record<string, any>, metadata?: Record<string, any>): Message {
+  if (data.type === 'chunk') {
+    return { ...message, content: message.content + data.content };
+  }
+  if (data.type === 'done') {
+    // Replace streaming message with final message
+    return {
+      id: metadata?.messageId || `msg_${Date.now()}`,
+      role: "assistant",
+      content: data.fullResponse,
+      timestamp: new Date(),
+      status: data.status,
+      finishReason: data.finishReason,
+      memoryIds: metadata?.memoryIds,
+      versions: [{
+        content: data.fullResponse,
+        timestamp: new Date(),
+        isCurrent: true
+      }],
+      currentVersionIndex: 0
+    };
+  }
+  return message;
+}
+
+// A reply that couldn't be generated, with an explanation in its place
+export function createFailedReply(id: string, content: string): Message {
+  return {
+    id,
+    role: "assistant",
+    content,
+    timestamp: new Date(),
+    status: "error",
+    versions: [{
+      content,
+      timestamp: new Date(),
+      isCurrent: true
+    }],
+    currentVersionIndex: 0
+  };
+}
+
+/**
+ * The user stopped a new reply. Once the server has stored it (`messageId`
+ * is known) the partial text is kept, marked as stopped; before that the
+ * placeholder and the other unsaved messages of the exchange are removed.
+ */
+export function stopReply(
+  conversations: Conversation[],
+  conversationId: string | null,
+  placeholderId: string,
+  messageId?: string,
+  unsavedIds: string[] = []
+): Conversation[] {
+  if (messageId) {
+    return updateMessage(conversations, conversationId, placeholderId, m => ({ ...m, id: messageId, status: "stopped" }));
+  }
+
+  const removed = [placeholderId, ...unsavedIds];
+  return updateConversation(conversations, conversationId, c => ({
+    messages: c.messages.filter(m => !removed.includes(m.id)),
+    updatedAt: new Date()
+  }));
+}
+
+// A stopped or truncated answer is being continued in place
+export function markContinuing(message: Message): Message {
+  return { ...message, status: "streaming", finishReason: undefined };
+}
+
+/**
+ * Apply an event of a generation that writes into an existing message:
+ * continuing an answer, or reattaching to one after a reload or dropped
+ * connection. The metadata event carries the text the generation started
+ * from; callers replaying only the missed events skip it.
+ */
+export function applyResumedEvent(message: Message, data: Record<string, any>, messageId: string): Message {
+  switch (data.type) {
+    case 'metadata':
+      return { ...message, content: data.initialContent ?? message.content };
+    case 'chunk':
+      return { ...message, content: message.content + data.content };
+    case 'done':
+      return { ...message, id: messageId, content: data.fullResponse, status: data.status, finishReason: data.finishReason };
+    case 'error':
+      return { ...message, id: messageId, status: "error" };
+    default:
+      return message;
+  }
+}
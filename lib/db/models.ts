@@ -1,4 +1,12 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { ModelSettings } from "@/lib/ai/types";
+
+// "Custom instructions" the user wants applied to every response
+export interface CustomInstructions {
+  aboutMe?: string; // What the assistant should know about the user
+  responseStyle?: string; // How the user would like the assistant to respond
+  enabled?: boolean;
+}
 
 export interface IUser extends Document {
   clerkId: string;
@@ -6,14 +14,32 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   imageUrl: string;
+  customInstructions?: CustomInstructions;
+  memoryEnabled?: boolean; // When false, memories are neither used nor created
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Condensed version of the oldest turns on the active path
+export interface ConversationSummary {
+  content: string;
+  messageIds: string[]; // The active-path messages the summary covers, in order
+  updatedAt: Date;
+}
+
 export interface IConversation extends Document {
   userId: string;
   title: string;
   activePath: string[]; // Array of message IDs representing the current active conversation path
+  modelSettings?: ModelSettings; // Model and generation parameters used for this conversation
+  summary?: ConversationSummary; // Cached summary of turns that no longer fit the context window
+  assistantId?: string; // Assistant persona the conversation was started from
+  projectId?: string; // Project the conversation is filed under
+  pinned?: boolean; // Listed above the other chats in the sidebar
+  archived?: boolean; // Hidden from the sidebar and shown in the archive instead
+  temporary?: boolean; // Kept out of the sidebar and memory, and deleted after use
+  expiresAt?: Date; // When a temporary conversation is removed if not deleted earlier
+  forkedFrom?: { conversationId: string; messageId: string }; // Conversation and message this chat was branched from
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,7 +54,8 @@ export interface IMessage extends Document {
   parentId?: string; // Reference to parent message (for tree structure)
   branchIndex?: number; // Index within the branch (0 for first message in branch)
   isActive?: boolean; // Whether this message is part of the active path
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // For assistant messages: provider, model, generation status and memories used
+  expiresAt?: Date; // Set on messages in temporary conversations
   files?: Array<{
     id: string;
     name: string;
@@ -90,12 +117,71 @@ export interface IMessage extends Document {
   currentVersionIndex?: number;
 }
 
+// Reference file attached to an assistant or project; its extracted text is given to the model
+export interface ReferenceFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  cloudinaryUrl?: string;
+  uploadcareId?: string;
+  analysis?: {
+    text?: string;
+    extractedText?: string;
+    summary?: string;
+  };
+  uploadedAt: Date;
+}
+
+// Reusable persona: a system prompt plus default model settings and starters
+export interface IAssistant extends Document {
+  userId: string;
+  name: string;
+  description?: string;
+  instructions: string; // System prompt for conversations started from this assistant
+  modelSettings?: ModelSettings; // Default model and generation parameters
+  starterPrompts: string[];
+  files: ReferenceFile[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Folder of conversations that share instructions and reference files
+export interface IProject extends Document {
+  userId: string;
+  name: string;
+  instructions: string; // Added to the system prompt of every chat in the project
+  files: ReferenceFile[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface IMemory extends Document {
   userId: string;
   content: string;
   metadata?: Record<string, any>;
-  conversationId?: string;
+  conversationId?: string; // Latest conversation that added or updated the memory
   messageId?: string;
+  sourceConversationIds?: string[]; // Every conversation the memory was learned or confirmed in
+  embedding?: number[]; // Vector used for semantic search
+  embeddingModel?: string; // Backend that produced the embedding
+  pinned?: boolean; // Always included in context and never changed by automatic extraction
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DeletionJobStatus = "pending" | "running" | "completed" | "failed";
+
+// Background cleanup of what a deleted conversation leaves behind
+export interface IDeletionJob extends Document {
+  userId: string;
+  conversationId: string;
+  status: DeletionJobStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: Date; // When a pending job is due, or a running job's claim expires
+  expiresAt?: Date; // Completed jobs are removed after a while
   createdAt: Date;
   updatedAt: Date;
 }
@@ -106,6 +192,12 @@ const UserSchema = new Schema<IUser>({
   firstName: { type: String, required: true },
   lastName: { type: String, required: true },
   imageUrl: { type: String, required: true },
+  customInstructions: {
+    aboutMe: { type: String, maxlength: 1500 },
+    responseStyle: { type: String, maxlength: 1500 },
+    enabled: { type: Boolean, default: true },
+  },
+  memoryEnabled: { type: Boolean, default: true },
 }, {
   timestamps: true,
 });
@@ -114,13 +206,16 @@ const MessageSchema = new Schema<IMessage>({
   conversationId: { type: String, required: true, index: true },
   userId: { type: String, required: true, index: true },
   role: { type: String, enum: ["user", "assistant"], required: true },
-  content: { type: String, required: true },
+  // Assistant messages start empty while streaming and may stay empty if stopped early
+  content: { type: String, default: "", required: function (this: IMessage) { return this.role === "user"; } },
   timestamp: { type: Date, default: Date.now, index: true },
   edited: { type: Boolean, default: false },
   parentId: { type: String, index: true }, // For tree structure
   branchIndex: { type: Number, default: 0 }, // Position in the conversation flow
   isActive: { type: Boolean, default: true }, // Whether this message is in the active path
   metadata: { type: Schema.Types.Mixed, default: {} },
+  // TTL index: MongoDB removes the message once this date passes
+  expiresAt: { type: Date, expires: 0 },
   files: [{
     id: { type: String, required: true },
     name: { type: String, required: true },
@@ -177,10 +272,85 @@ const MessageSchema = new Schema<IMessage>({
   timestamps: true,
 });
 
+// Full-text search over message content
+MessageSchema.index({ content: "text" });
+
 const ConversationSchema = new Schema<IConversation>({
   userId: { type: String, required: true, index: true },
   title: { type: String, required: true },
   activePath: [{ type: String }], // Array of message IDs representing the current active path
+  modelSettings: {
+    provider: { type: String, enum: ["openai", "openrouter", "local"] },
+    model: { type: String },
+    temperature: { type: Number, min: 0, max: 2 },
+    maxTokens: { type: Number, min: 1 },
+    topP: { type: Number, min: 0, max: 1 },
+  },
+  assistantId: { type: String, index: true },
+  projectId: { type: String, index: true },
+  pinned: { type: Boolean, default: false },
+  archived: { type: Boolean, default: false },
+  temporary: { type: Boolean, default: false },
+  expiresAt: { type: Date, expires: 0 },
+  forkedFrom: {
+    conversationId: { type: String },
+    messageId: { type: String },
+  },
+  summary: {
+    content: { type: String },
+    messageIds: [{ type: String }],
+    updatedAt: { type: Date },
+  },
+}, {
+  timestamps: true,
+});
+
+// Sidebar pagination: newest first per user, in or outside a project
+ConversationSchema.index({ userId: 1, projectId: 1, updatedAt: -1, _id: -1 });
+
+// Full-text search over conversation titles
+ConversationSchema.index({ title: "text" });
+
+// Shared by assistants and projects
+const ReferenceFileSchema = new Schema<ReferenceFile>({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  type: { type: String, required: true },
+  size: { type: Number, required: true },
+  url: { type: String, required: true },
+  cloudinaryUrl: { type: String },
+  uploadcareId: { type: String },
+  analysis: {
+    text: { type: String },
+    extractedText: { type: String },
+    summary: { type: String },
+  },
+  uploadedAt: { type: Date, default: Date.now },
+});
+
+const AssistantSchema = new Schema<IAssistant>({
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true, maxlength: 100 },
+  description: { type: String, maxlength: 500 },
+  instructions: { type: String, default: "", maxlength: 8000 },
+  modelSettings: {
+    provider: { type: String, enum: ["openai", "openrouter", "local"] },
+    model: { type: String },
+    temperature: { type: Number, min: 0, max: 2 },
+    maxTokens: { type: Number, min: 1 },
+    topP: { type: Number, min: 0, max: 1 },
+  },
+  starterPrompts: [{ type: String, maxlength: 300 }],
+  files: [ReferenceFileSchema],
+}, {
+  timestamps: true,
+});
+
+const ProjectSchema = new Schema<IProject>({
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true, maxlength: 100 },
+  instructions: { type: String, default: "", maxlength: 8000 },
+  files: [ReferenceFileSchema],
 }, {
   timestamps: true,
 });
@@ -191,11 +361,34 @@ const MemorySchema = new Schema<IMemory>({
   metadata: { type: Schema.Types.Mixed, default: {} },
   conversationId: { type: String, index: true },
   messageId: { type: String, index: true },
+  sourceConversationIds: { type: [String], index: true },
+  // Large and only needed for search, so not loaded unless selected
+  embedding: { type: [Number], select: false },
+  embeddingModel: { type: String },
+  pinned: { type: Boolean, default: false },
 }, {
   timestamps: true,
 });
 
+const DeletionJobSchema = new Schema<IDeletionJob>({
+  userId: { type: String, required: true, index: true },
+  conversationId: { type: String, required: true },
+  status: { type: String, enum: ["pending", "running", "completed", "failed"], default: "pending" },
+  attempts: { type: Number, default: 0 },
+  lastError: { type: String },
+  nextAttemptAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, expires: 0 },
+}, {
+  timestamps: true,
+});
+
+// Finding jobs that are due
+DeletionJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
 export const User = mongoose.models.User || mongoose.model<IUser>("User", UserSchema);
 export const Conversation = mongoose.models.Conversation || mongoose.model<IConversation>("Conversation", ConversationSchema);
 export const Message = mongoose.models.Message || mongoose.model<IMessage>("Message", MessageSchema);
+export const Assistant = mongoose.models.Assistant || mongoose.model<IAssistant>("Assistant", AssistantSchema);
+export const Project = mongoose.models.Project || mongoose.model<IProject>("Project", ProjectSchema);
 export const Memory = mongoose.models.Memory || mongoose.model<IMemory>("Memory", MemorySchema);
+export const DeletionJob = mongoose.models.DeletionJob || mongoose.model<IDeletionJob>("DeletionJob", DeletionJobSchema);
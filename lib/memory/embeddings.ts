@@ -0,0 +1,139 @@
+// Embedding backends for semantic memory search
+import OpenAI from "openai";
+
+export interface EmbeddingProvider {
+  // Stored with each vector so vectors from different backends are never compared
+  id: string;
+  // Cosine similarity below which a memory is considered unrelated
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Embedding models accept a few thousand tokens; memories beyond this are embedded by their start
+const MAX_EMBEDDING_INPUT_LENGTH = 8000;
+
+// Common words that carry no meaning for matching
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "for", "from", "how", "i",
+  "if", "in", "is", "it", "me", "my", "of", "on", "or", "so", "that", "the", "this", "to", "was",
+  "we", "what", "when", "which", "with", "you", "your",
+]);
+
+// 32-bit FNV-1a, so the same token always lands in the same dimension
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * Dependency-free embedder using feature hashing of words and character
+ * trigrams. Deterministic and offline, so it suits tests and local setups;
+ * it matches shared vocabulary rather than meaning.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly minSimilarity = 0.15;
+  private dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.id = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.slice(0, MAX_EMBEDDING_INPUT_LENGTH).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      if (STOP_WORDS.has(word)) continue;
+
+      vector[hashToken(word) % this.dimensions] += 1;
+
+      // Trigrams let related word forms ("deploy", "deployment") overlap
+      const padded = `_${word}_`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        vector[hashToken(`#${padded.slice(i, i + 3)}`) % this.dimensions] += 0.5;
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly minSimilarity = 0.3;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: { apiKey?: string; baseURL?: string; model: string }) {
+    this.model = options.model;
+    this.id = `openai:${options.model}`;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts.map(text => text.slice(0, MAX_EMBEDDING_INPUT_LENGTH)),
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Pick the embedding backend from MEMORY_EMBEDDING_PROVIDER ("openai" or
+ * "local"). Without it, OpenAI is used when an API key is available.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.MEMORY_EMBEDDING_PROVIDER;
+  const apiKey = process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+
+  if (configured === "local" || (configured !== "openai" && !apiKey)) {
+    return new LocalEmbeddingProvider();
+  }
+
+  return new OpenAIEmbeddingProvider({
+    apiKey,
+    baseURL: process.env.EMBEDDING_BASE_URL,
+    model: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+  });
+}
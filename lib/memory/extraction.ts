@@ -0,0 +1,126 @@
+// LLM prompts that turn a chat exchange into durable facts about the user and
+// reconcile them with what is already remembered (mem0-style add/update/delete)
+import type { ChatProvider } from "@/lib/ai/types";
+
+export interface ExtractionModel {
+  provider: ChatProvider;
+  model: string;
+}
+
+export interface Exchange {
+  userMessage: string;
+  assistantResponse: string;
+}
+
+export type MemoryEvent = "ADD" | "UPDATE" | "DELETE" | "NONE";
+
+export interface MemoryDecision {
+  event: MemoryEvent;
+  // Existing memory the decision applies to (UPDATE, DELETE, NONE)
+  id?: string;
+  text?: string;
+}
+
+// Long replies add little to fact extraction, so only their start is sent
+const MAX_RESPONSE_LENGTH = 4000;
+
+const FACT_EXTRACTION_PROMPT = `You extract durable facts about the user from a conversation so they can be remembered in future chats.
+Record personal details, preferences, plans, relationships, work, projects, tools they use and how they like answers.
+Only use what the user says about themselves; the assistant's reply is context, not a source of facts.
+Skip small talk, one-off questions and anything only relevant to the current task.
+Write each fact as a short standalone sentence, e.g. "Works as a backend engineer at a fintech startup".
+Reply with JSON only: {"facts": ["..."]}. Return {"facts": []} when there is nothing worth remembering.`;
+
+const MEMORY_UPDATE_PROMPT = `You manage a user's long-term memory. Compare newly learned facts with the existing memories and decide what to change.
+For every existing memory and every new fact, choose one event:
+- ADD: a new fact that no existing memory covers.
+- UPDATE: an existing memory should be corrected or extended with new information. Keep its id and give the full new text.
+  To merge memories that say the same thing, UPDATE one of them with the combined text and DELETE the others.
+- DELETE: an existing memory is contradicted by the new facts or duplicated by another memory.
+- NONE: an existing memory is unaffected, or a new fact is already covered.
+Reply with JSON only: {"memory": [{"id": "<existing id, omitted for ADD>", "text": "<memory text>", "event": "ADD|UPDATE|DELETE|NONE"}]}`;
+
+// Models often wrap JSON in code fences or add a sentence around it
+function parseJsonObject(text: string): any {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("No JSON object in model response");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Ask the model for standalone facts about the user found in one exchange
+ */
+export async function extractFacts({ provider, model }: ExtractionModel, exchange: Exchange): Promise<string[]> {
+  const response = await provider.generateChatResponse(
+    [
+      { role: "system", content: FACT_EXTRACTION_PROMPT },
+      {
+        role: "user",
+        content: `User: ${exchange.userMessage}\n\nAssistant: ${exchange.assistantResponse.slice(0, MAX_RESPONSE_LENGTH)}`,
+      },
+    ],
+    { model, temperature: 0 }
+  );
+
+  const { facts } = parseJsonObject(response);
+  if (!Array.isArray(facts)) return [];
+
+  return facts
+    .filter((fact): fact is string => typeof fact === "string")
+    .map(fact => fact.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Decide how new facts change the existing memories. Memories are shown to
+ * the model under short numeric IDs so it can't invent database IDs; the
+ * decisions come back with the real IDs.
+ */
+export async function planMemoryUpdates(
+  { provider, model }: ExtractionModel,
+  existing: Array<{ id: string; content: string }>,
+  facts: string[]
+): Promise<MemoryDecision[]> {
+  if (facts.length === 0) return [];
+
+  // Nothing to reconcile against: every fact is new
+  if (existing.length === 0) {
+    return facts.map(text => ({ event: "ADD", text }));
+  }
+
+  const response = await provider.generateChatResponse(
+    [
+      { role: "system", content: MEMORY_UPDATE_PROMPT },
+      {
+        role: "user",
+        content: JSON.stringify({
+          existing_memories: existing.map((memory, index) => ({ id: String(index), text: memory.content })),
+          new_facts: facts,
+        }),
+      },
+    ],
+    { model, temperature: 0 }
+  );
+
+  const { memory } = parseJsonObject(response);
+  if (!Array.isArray(memory)) return [];
+
+  const decisions: MemoryDecision[] = [];
+  for (const item of memory) {
+    const event = typeof item?.event === "string" ? item.event.toUpperCase() : "";
+    const text = typeof item?.text === "string" ? item.text.trim() : "";
+    const target = existing[Number(item?.id)];
+
+    if (event === "ADD" && text) {
+      decisions.push({ event: "ADD", text });
+    } else if ((event === "UPDATE" || event === "DELETE" || event === "NONE") && target) {
+      if (event === "UPDATE" && !text) continue;
+      decisions.push({ event, id: target.id, text: text || target.content });
+    }
+  }
+
+  return decisions;
+}
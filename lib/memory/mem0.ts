@@ -1,5 +1,8 @@
 import connectDB from "@/lib/db/mongodb";
 import { Memory, IMemory } from "@/lib/db/models";
+import { countTextTokens } from "@/lib/ai/context";
+import { cosineSimilarity, getEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { extractFacts, planMemoryUpdates, type Exchange, type ExtractionModel, type MemoryEvent } from "./extraction";
 
 export interface MemoryEntry {
   id: string;
@@ -7,13 +10,62 @@ export interface MemoryEntry {
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
+  pinned?: boolean;
+  score?: number; // Similarity to the search query
+}
+
+export interface MemoryChange {
+  event: Exclude<MemoryEvent, "NONE">;
+  memoryId: string;
+  content: string;
+}
+
+export interface MemorySearchOptions {
+  limit?: number;
+  // Total tokens the returned memories may take up in the prompt
+  tokenBudget?: number;
+}
+
+// Most recent memories considered per search; older ones are not scored
+const MAX_SEARCH_CANDIDATES = 500;
+
+const DEFAULT_MEMORY_TOKEN_BUDGET = 1000;
+
+// Limit for memories written by hand; extracted facts are short sentences
+export const MEMORY_MAX_LENGTH = 1000;
+
+function toMemoryEntry(memory: IMemory): MemoryEntry {
+  return {
+    id: memory._id.toString(),
+    content: memory.content,
+    metadata: memory.metadata,
+    pinned: !!memory.pinned,
+    created_at: memory.createdAt.toISOString(),
+    updated_at: memory.updatedAt.toISOString(),
+  };
 }
 
 export class MemoryManager {
   private userId: string;
+  private embeddings: EmbeddingProvider;
 
-  constructor(userId: string) {
+  constructor(userId: string, embeddings: EmbeddingProvider = getEmbeddingProvider()) {
     this.userId = userId;
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Embed text with the configured backend; returns undefined if that fails
+   * so the memory is still saved (and embedded later during search)
+   */
+  private async embedContent(content: string): Promise<{ embedding?: number[]; embeddingModel?: string }> {
+    try {
+      const [embedding] = await this.embeddings.embed([content]);
+      return { embedding, embeddingModel: this.embeddings.id };
+    } catch (error) {
+      console.warn("Memory embedding failed:", error);
+      return {};
+    }
   }
 
   async addMemory(content: string, metadata?: Record<string, any>): Promise<MemoryEntry> {
@@ -26,69 +78,134 @@ export class MemoryManager {
         metadata,
         conversationId: metadata?.conversationId,
         messageId: metadata?.messageId,
+        sourceConversationIds: metadata?.conversationId ? [metadata.conversationId] : [],
+        ...(await this.embedContent(content)),
       });
       
       const savedMemory = await memory.save();
       
-      return {
-        id: savedMemory._id.toString(),
-        content: savedMemory.content,
-        metadata: savedMemory.metadata,
-        created_at: savedMemory.createdAt.toISOString(),
-        updated_at: savedMemory.updatedAt.toISOString(),
-      };
+      return toMemoryEntry(savedMemory);
     } catch (error) {
       console.error("Error adding memory:", error);
       throw new Error("Failed to add memory");
     }
   }
 
-  async searchMemories(query: string, limit: number = 5): Promise<MemoryEntry[]> {
+  /**
+   * Find the memories most similar to the query, best first. Pinned memories
+   * always come first; other results below the backend's similarity
+   * threshold are dropped. The list is cut off once the memories would
+   * exceed the token budget.
+   */
+  async searchMemories(query: string, options: MemorySearchOptions = {}): Promise<MemoryEntry[]> {
+    const [results] = await this.searchMemoriesForQueries([query], options);
+    return results;
+  }
+
+  /**
+   * searchMemories for several queries at once: the candidates are loaded
+   * once and the queries embedded in a single call. Returns one result list
+   * per query, in order.
+   */
+  async searchMemoriesForQueries(queries: string[], options: MemorySearchOptions = {}): Promise<MemoryEntry[][]> {
+    const { limit = 5, tokenBudget = DEFAULT_MEMORY_TOKEN_BUDGET } = options;
+    const empty = queries.map((): MemoryEntry[] => []);
+
     try {
+      const searchable = queries.map((query, index) => ({ query, index })).filter(({ query }) => query.trim());
+      if (searchable.length === 0) return empty;
+
       await connectDB();
-      
-      // Escape special regex characters in the query
-      const escapedQuery = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      
-      // MongoDB text search
-      const memories = await Memory.find({
-        userId: this.userId,
-        $or: [
-          { content: { $regex: escapedQuery, $options: 'i' } },
-          { 'metadata.conversationId': { $regex: escapedQuery, $options: 'i' } }
-        ]
-      })
-      .sort({ updatedAt: -1 })
-      .limit(limit);
-      
-      return memories.map(memory => ({
-        id: memory._id.toString(),
-        content: memory.content,
-        metadata: memory.metadata,
-        created_at: memory.createdAt.toISOString(),
-        updated_at: memory.updatedAt.toISOString(),
-      }));
+
+      const memories: IMemory[] = await Memory.find({ userId: this.userId })
+        .select("+embedding")
+        .sort({ updatedAt: -1 })
+        .limit(MAX_SEARCH_CANDIDATES);
+
+      if (memories.length === 0) return empty;
+
+      await this.backfillEmbeddings(memories);
+
+      const candidates = memories.filter(memory => memory.embeddingModel === this.embeddings.id && memory.embedding?.length);
+      const queryEmbeddings = await this.embeddings.embed(searchable.map(({ query }) => query));
+
+      const results = [...empty];
+      searchable.forEach(({ index }, position) => {
+        results[index] = this.rankMemories(candidates, queryEmbeddings[position], limit, tokenBudget);
+      });
+      return results;
     } catch (error) {
       console.error("Error searching memories:", error);
-      return [];
+      return empty;
     }
   }
 
-  async getMemories(limit: number = 20): Promise<MemoryEntry[]> {
+  private rankMemories(candidates: IMemory[], queryEmbedding: number[], limit: number, tokenBudget: number): MemoryEntry[] {
+    const ranked = candidates
+      .map(memory => ({ memory, score: cosineSimilarity(queryEmbedding, memory.embedding!) }))
+      .filter(({ memory, score }) => memory.pinned || score >= this.embeddings.minSimilarity)
+      .sort((a, b) => Number(!!b.memory.pinned) - Number(!!a.memory.pinned) || b.score - a.score);
+
+    const results: MemoryEntry[] = [];
+    let usedTokens = 0;
+    for (const { memory, score } of ranked) {
+      if (results.length >= limit) break;
+
+      const tokens = countTextTokens(memory.content);
+      if (usedTokens + tokens > tokenBudget) continue; // A shorter, lower-ranked memory may still fit
+      usedTokens += tokens;
+
+      results.push({ ...toMemoryEntry(memory), score });
+    }
+
+    return results;
+  }
+
+  /**
+   * Embed memories saved before embeddings existed, or with another backend
+   */
+  private async backfillEmbeddings(memories: IMemory[]): Promise<void> {
+    const stale = memories.filter(memory => memory.embeddingModel !== this.embeddings.id || !memory.embedding?.length);
+    if (stale.length === 0) return;
+
+    try {
+      const embeddings = await this.embeddings.embed(stale.map(memory => memory.content));
+      await Memory.bulkWrite(stale.map((memory, index) => ({
+        updateOne: {
+          filter: { _id: memory._id, userId: this.userId },
+          update: { $set: { embedding: embeddings[index], embeddingModel: this.embeddings.id } },
+          timestamps: false,
+        },
+      })));
+
+      stale.forEach((memory, index) => {
+        memory.embedding = embeddings[index];
+        memory.embeddingModel = this.embeddings.id;
+      });
+    } catch (error) {
+      console.warn("Memory embedding backfill failed:", error);
+    }
+  }
+
+  /**
+   * List memories, pinned first then most recently updated. The optional
+   * query filters by text, for browsing rather than relevance.
+   */
+  async getMemories(limit: number = 20, query?: string): Promise<MemoryEntry[]> {
     try {
       await connectDB();
       
-      const memories = await Memory.find({ userId: this.userId })
-        .sort({ updatedAt: -1 })
+      const filter: Record<string, any> = { userId: this.userId };
+      if (query?.trim()) {
+        // Escape special regex characters in the query
+        filter.content = { $regex: query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+      }
+
+      const memories = await Memory.find(filter)
+        .sort({ pinned: -1, updatedAt: -1 })
         .limit(limit);
       
-      return memories.map(memory => ({
-        id: memory._id.toString(),
-        content: memory.content,
-        metadata: memory.metadata,
-        created_at: memory.createdAt.toISOString(),
-        updated_at: memory.updatedAt.toISOString(),
-      }));
+      return memories.map(memory => toMemoryEntry(memory));
     } catch (error) {
       console.error("Error getting memories:", error);
       return [];
@@ -106,6 +223,8 @@ export class MemoryManager {
           metadata,
           conversationId: metadata?.conversationId,
           messageId: metadata?.messageId,
+          ...(await this.embedContent(content)),
+          ...(metadata?.conversationId && { $addToSet: { sourceConversationIds: metadata.conversationId } }),
         },
         { new: true }
       );
@@ -114,19 +233,55 @@ export class MemoryManager {
         throw new Error("Memory not found");
       }
 
-      return {
-        id: memory._id.toString(),
-        content: memory.content,
-        metadata: memory.metadata,
-        created_at: memory.createdAt.toISOString(),
-        updated_at: memory.updatedAt.toISOString(),
-      };
+      return toMemoryEntry(memory);
     } catch (error) {
       console.error("Error updating memory:", error);
       throw new Error("Failed to update memory");
     }
   }
 
+  async getMemory(memoryId: string): Promise<MemoryEntry | null> {
+    try {
+      await connectDB();
+
+      const memory = await Memory.findOne({ _id: memoryId, userId: this.userId });
+      return memory ? toMemoryEntry(memory) : null;
+    } catch (error) {
+      console.error("Error getting memory:", error);
+      return null;
+    }
+  }
+
+  // Memories that still exist among the given IDs, e.g. those recorded on a message
+  async getMemoriesByIds(memoryIds: string[]): Promise<MemoryEntry[]> {
+    try {
+      await connectDB();
+
+      const memories = await Memory.find({ _id: { $in: memoryIds }, userId: this.userId })
+        .sort({ pinned: -1, updatedAt: -1 });
+      return memories.map(toMemoryEntry);
+    } catch (error) {
+      console.error("Error getting memories:", error);
+      return [];
+    }
+  }
+
+  async setPinned(memoryId: string, pinned: boolean): Promise<MemoryEntry | null> {
+    try {
+      await connectDB();
+
+      const memory = await Memory.findOneAndUpdate(
+        { _id: memoryId, userId: this.userId },
+        { pinned },
+        { new: true }
+      );
+      return memory ? toMemoryEntry(memory) : null;
+    } catch (error) {
+      console.error("Error pinning memory:", error);
+      throw new Error("Failed to update memory");
+    }
+  }
+
   async deleteMemory(memoryId: string): Promise<boolean> {
     try {
       await connectDB();
@@ -143,11 +298,101 @@ export class MemoryManager {
     }
   }
 
+  async deleteAllMemories(): Promise<number> {
+    try {
+      await connectDB();
+
+      const result = await Memory.deleteMany({ userId: this.userId });
+      return result.deletedCount || 0;
+    } catch (error) {
+      console.error("Error deleting memories:", error);
+      throw new Error("Failed to delete memories");
+    }
+  }
+
+  /**
+   * Delete the memories learned only in a conversation. Facts also learned
+   * or confirmed in other chats, and pinned memories (curated by the user),
+   * are kept and only lose the link to it.
+   */
+  async deleteConversationMemories(conversationId: string): Promise<number> {
+    await connectDB();
+
+    const memories: IMemory[] = await Memory.find({
+      userId: this.userId,
+      $or: [{ conversationId }, { sourceConversationIds: conversationId }],
+    }).select("pinned conversationId sourceConversationIds");
+
+    // Memories saved before sources were tracked only know their latest conversation
+    const onlyFromHere = memories.filter(memory => {
+      const sources = memory.sourceConversationIds?.length ? memory.sourceConversationIds : [memory.conversationId];
+      return !memory.pinned && sources.every(source => source === conversationId);
+    });
+
+    const result = await Memory.deleteMany({ userId: this.userId, _id: { $in: onlyFromHere.map(memory => memory._id) } });
+    await Memory.updateMany(
+      { userId: this.userId, sourceConversationIds: conversationId },
+      { $pull: { sourceConversationIds: conversationId } }
+    );
+    await Memory.updateMany(
+      { userId: this.userId, conversationId },
+      { $unset: { conversationId: "", messageId: "" } }
+    );
+    return result.deletedCount || 0;
+  }
+
+  /**
+   * Extract durable facts about the user from one exchange and reconcile
+   * them with related memories: new facts are added, outdated or duplicate
+   * memories updated, merged or deleted. Returns the changes applied.
+   */
+  async processExchange(
+    exchange: Exchange & { conversationId?: string; messageId?: string },
+    extractionModel: ExtractionModel
+  ): Promise<MemoryChange[]> {
+    const facts = await extractFacts(extractionModel, exchange);
+    if (facts.length === 0) return [];
+
+    // Only memories related to the new facts can be affected by them
+    const related = new Map<string, MemoryEntry>();
+    for (const matches of await this.searchMemoriesForQueries(facts, { limit: 5 })) {
+      for (const memory of matches) {
+        related.set(memory.id, memory);
+      }
+    }
+
+    const decisions = await planMemoryUpdates(extractionModel, Array.from(related.values()), facts);
+
+    const source = { conversationId: exchange.conversationId, messageId: exchange.messageId };
+    const changes: MemoryChange[] = [];
+    const added = new Set<string>();
+
+    for (const decision of decisions) {
+      if (decision.event === "ADD" && decision.text && !added.has(decision.text)) {
+        added.add(decision.text);
+        const memory = await this.addMemory(decision.text, source);
+        changes.push({ event: "ADD", memoryId: memory.id, content: memory.content });
+      } else if (decision.id && related.get(decision.id)?.pinned) {
+        // Pinned memories are curated by the user
+        continue;
+      } else if (decision.event === "UPDATE" && decision.id && decision.text) {
+        const memory = await this.updateMemory(decision.id, decision.text, { ...related.get(decision.id)?.metadata, ...source });
+        changes.push({ event: "UPDATE", memoryId: memory.id, content: memory.content });
+      } else if (decision.event === "DELETE" && decision.id) {
+        if (await this.deleteMemory(decision.id)) {
+          changes.push({ event: "DELETE", memoryId: decision.id, content: related.get(decision.id)?.content || "" });
+        }
+      }
+    }
+
+    return changes;
+  }
+
   async getContextForConversation(conversationHistory: string[], conversationId?: string): Promise<string> {
     try {
       // Search for relevant memories based on conversation history
       const recentMessages = conversationHistory.slice(-3).join(" ");
-      const relevantMemories = await this.searchMemories(recentMessages, 3);
+      const relevantMemories = await this.searchMemories(recentMessages, { limit: 3 });
       
       // Also get memories specific to this conversation if conversationId is provided
       let conversationMemories: MemoryEntry[] = [];
@@ -160,13 +405,7 @@ export class MemoryManager {
         .sort({ updatedAt: -1 })
         .limit(2);
         
-        conversationMemories = memories.map(memory => ({
-          id: memory._id.toString(),
-          content: memory.content,
-          metadata: memory.metadata,
-          created_at: memory.createdAt.toISOString(),
-          updated_at: memory.updatedAt.toISOString(),
-        }));
+        conversationMemories = memories.map(memory => toMemoryEntry(memory));
       }
       
       const allMemories = [...relevantMemories, ...conversationMemories];
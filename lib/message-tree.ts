@@ -0,0 +1,103 @@
+// Conversations are stored as a tree of messages linked by `parentId`.
+// Regenerating a response adds a sibling under the same parent, so every
+// message with more than one child is a fork the user can switch at.
+
+const PREVIEW_LENGTH = 100;
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  // Oldest first
+  children: string[];
+  // Position among the messages that share this one's parent (or among the roots)
+  siblingIndex: number;
+  siblingCount: number;
+  preview: string;
+  timestamp: Date;
+}
+
+export interface MessageTree {
+  rootIds: string[];
+  nodes: Record<string, MessageTreeNode>;
+}
+
+interface TreeMessage {
+  _id: unknown;
+  parentId?: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+}
+
+export function buildMessageTree(messages: TreeMessage[]): MessageTree {
+  const sorted = [...messages].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+    String(a._id).localeCompare(String(b._id))
+  );
+
+  const nodes: Record<string, MessageTreeNode> = {};
+  for (const message of sorted) {
+    const id = String(message._id);
+    nodes[id] = {
+      id,
+      parentId: message.parentId || null,
+      role: message.role,
+      children: [],
+      siblingIndex: 0,
+      siblingCount: 1,
+      preview: message.content.replace(/\s+/g, " ").trim().slice(0, PREVIEW_LENGTH),
+      timestamp: message.timestamp,
+    };
+  }
+
+  // A message whose parent is missing is treated as a root
+  const rootIds: string[] = [];
+  for (const node of Object.values(nodes)) {
+    const parent = node.parentId ? nodes[node.parentId] : undefined;
+    if (parent) {
+      parent.children.push(node.id);
+    } else {
+      node.parentId = null;
+      rootIds.push(node.id);
+    }
+  }
+
+  for (const siblings of [rootIds, ...Object.values(nodes).map(node => node.children)]) {
+    siblings.forEach((id, index) => {
+      nodes[id].siblingIndex = index;
+      nodes[id].siblingCount = siblings.length;
+    });
+  }
+
+  return { rootIds, nodes };
+}
+
+/**
+ * The branch that runs through a message: its ancestors, the message, then
+ * one child at a time, following the active path where it continues and
+ * the newest child where it doesn't.
+ */
+export function resolveBranchPath(tree: MessageTree, messageId: string, activePath: string[] = []): string[] {
+  const path: string[] = [];
+  const visited = new Set<string>();
+
+  let current: MessageTreeNode | undefined = tree.nodes[messageId];
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current.id);
+    current = current.parentId ? tree.nodes[current.parentId] : undefined;
+  }
+
+  const active = new Set(activePath);
+  let last = tree.nodes[messageId];
+  while (last && last.children.length > 0) {
+    const nextId = last.children.find(id => active.has(id)) || last.children[last.children.length - 1];
+    if (visited.has(nextId)) break;
+    visited.add(nextId);
+    path.push(nextId);
+    last = tree.nodes[nextId];
+  }
+
+  return path;
+}
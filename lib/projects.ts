@@ -0,0 +1,31 @@
+// Validation shared by the project routes
+import type { IProject } from "@/lib/db/models";
+import { optionalString, parseReferenceFiles } from "@/lib/validation";
+
+type ProjectInput = Partial<Pick<IProject, "name" | "instructions" | "files">>;
+
+/**
+ * Pick the editable fields from a request body. Only fields that are present
+ * are returned, so the result can be used for partial updates.
+ * Throws an Error with a user-facing message when a field is invalid.
+ */
+export function parseProjectInput(body: Record<string, unknown>, requireName: boolean): ProjectInput {
+  const input: ProjectInput = {};
+
+  const name = optionalString(body.name, "Name", 100);
+  if (name !== undefined) {
+    if (!name) throw new Error("Name is required");
+    input.name = name;
+  } else if (requireName) {
+    throw new Error("Name is required");
+  }
+
+  const instructions = optionalString(body.instructions, "Instructions", 8000);
+  if (instructions !== undefined) input.instructions = instructions;
+
+  if (body.files !== undefined) {
+    input.files = parseReferenceFiles(body.files);
+  }
+
+  return input;
+}
@@ -0,0 +1,91 @@
+// Highlighted snippets for full-text search results
+
+export interface Snippet {
+  text: string;
+  // [start, end) character ranges in `text` that matched the query
+  highlights: Array<[number, number]>;
+}
+
+const SNIPPET_LENGTH = 160;
+
+// Common English endings, so "deploying" highlights "deployed" the way
+// MongoDB's stemmed text search matched it
+const SUFFIXES = ["ing", "ed", "es", "s"];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stem(term: string): string {
+  for (const suffix of SUFFIXES) {
+    if (term.length - suffix.length >= 3 && term.endsWith(suffix)) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+}
+
+/**
+ * Split a query into the words to highlight. Quoted phrases stay together and
+ * negated terms ("-word"), which MongoDB excludes, are dropped.
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    if (match[1] || match[3]) continue;
+    const term = (match[2] ?? match[4]).toLowerCase().trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Find every place a term appears, matching words that start with the
+ * term's stem
+ */
+export function findHighlights(text: string, terms: string[]): Array<[number, number]> {
+  if (terms.length === 0) return [];
+
+  const alternatives = terms
+    .map(term => term.includes(" ") ? escapeRegExp(term) : `${escapeRegExp(stem(term))}[\\p{L}\\p{N}]*`)
+    .sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})`, "giu");
+
+  const highlights: Array<[number, number]> = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length > 0) {
+      highlights.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return highlights;
+}
+
+/**
+ * Cut a window of text around the first match, with the matches in it
+ * marked. Falls back to the start of the text when nothing matches, e.g.
+ * for a hit that only matched through stemming.
+ */
+export function buildSnippet(text: string, terms: string[], length: number = SNIPPET_LENGTH): Snippet {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const highlights = findHighlights(normalized, terms);
+
+  let start = 0;
+  if (highlights.length > 0 && normalized.length > length) {
+    // Put the first match about a third of the way in
+    start = Math.max(0, Math.min(highlights[0][0] - Math.floor(length / 3), normalized.length - length));
+    // Don't start mid-word
+    const space = normalized.lastIndexOf(" ", start);
+    if (start > 0 && space !== -1 && start - space < 20) start = space + 1;
+  }
+  const end = Math.min(normalized.length, start + length);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < normalized.length ? "…" : "";
+
+  return {
+    text: prefix + normalized.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  };
+}
@@ -0,0 +1,169 @@
+import connectDB from "@/lib/db/mongodb";
+import { Assistant, DeletionJob, Message, Project, type IDeletionJob } from "@/lib/db/models";
+import { MemoryManager } from "@/lib/memory/mem0";
+import { fileUploadService } from "@/lib/services/file-upload";
+
+// Cleans up after a deleted conversation: its messages, the files uploaded
+// with them and the memories learned in it. The conversation document is
+// removed by the request itself so the chat disappears at once; the rest
+// runs as a job stored in MongoDB. Every step can safely run again, so a
+// job that fails is retried with backoff, and one whose server went away
+// mid-run is picked up again once its claim expires. Each server also sweeps
+// for due jobs at startup and every few minutes (see instrumentation.ts),
+// so cleanup finishes even if nobody deletes another chat. Jobs that used up
+// their attempts stay "failed" until retried through /api/conversations/deletions.
+
+const MAX_ATTEMPTS = 5;
+
+// Retry after 30s, 1m, 2m, 4m...
+const RETRY_BASE_MS = 30 * 1000;
+
+// How long a running job is claimed before another run may take it over
+const CLAIM_MS = 10 * 60 * 1000;
+
+// How often each server looks for due jobs
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Completed jobs are kept for a day for troubleshooting
+const COMPLETED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+interface StoredFile {
+  id: string;
+  cloudinaryUrl?: string;
+  uploadcareId?: string;
+}
+
+class DeletionService {
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Run due jobs now and then periodically, for jobs whose in-process retry
+   * was lost (e.g. the server restarted). Safe to call more than once.
+   */
+  startSweeping(): void {
+    if (this.sweepTimer) return;
+
+    const sweep = () => {
+      this.runDue().catch(error => console.error("Error running deletion jobs:", error));
+    };
+    sweep();
+    this.sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref?.();
+  }
+
+  /**
+   * Queue cleanup of a conversation that was just deleted and start it in
+   * the background. Also picks up the user's earlier jobs that are due.
+   */
+  async enqueue(conversationId: string, userId: string): Promise<IDeletionJob> {
+    await connectDB();
+
+    const job = await DeletionJob.create({ userId, conversationId });
+    this.runDue(userId).catch(error => console.error("Error running deletion jobs:", error));
+    return job;
+  }
+
+  /**
+   * Run the jobs that are due, optionally for one user. Failed jobs are only
+   * run again when `includeFailed` is set (a manual retry).
+   */
+  async runDue(userId?: string, includeFailed: boolean = false): Promise<number> {
+    await connectDB();
+
+    if (includeFailed) {
+      await DeletionJob.updateMany(
+        { ...(userId && { userId }), status: "failed" },
+        { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() } }
+      );
+    }
+
+    const due = await DeletionJob.find({
+      ...(userId && { userId }),
+      status: { $in: ["pending", "running"] },
+      nextAttemptAt: { $lte: new Date() },
+    }).select("_id");
+
+    await Promise.all(due.map(job => this.run(job._id.toString())));
+    return due.length;
+  }
+
+  private async run(jobId: string): Promise<void> {
+    // Claim the job so concurrent runs (or other servers) skip it
+    const job: IDeletionJob | null = await DeletionJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: ["pending", "running"] }, nextAttemptAt: { $lte: new Date() } },
+      { $set: { status: "running", nextAttemptAt: new Date(Date.now() + CLAIM_MS) }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!job) return;
+
+    try {
+      await this.cleanUp(job.conversationId, job.userId);
+
+      await DeletionJob.updateOne(
+        { _id: jobId },
+        {
+          $set: { status: "completed", expiresAt: new Date(Date.now() + COMPLETED_RETENTION_MS) },
+          $unset: { lastError: "" },
+        }
+      );
+    } catch (error) {
+      console.error(`Deletion job ${jobId} failed (attempt ${job.attempts}):`, error);
+
+      const retryIn = RETRY_BASE_MS * 2 ** (job.attempts - 1);
+      const willRetry = job.attempts < MAX_ATTEMPTS;
+      await DeletionJob.updateOne(
+        { _id: jobId },
+        {
+          $set: {
+            status: willRetry ? "pending" : "failed",
+            lastError: error instanceof Error ? error.message : String(error),
+            nextAttemptAt: new Date(Date.now() + retryIn),
+          },
+        }
+      );
+
+      if (willRetry) {
+        setTimeout(() => {
+          this.run(jobId).catch(error => console.error(`Error retrying deletion job ${jobId}:`, error));
+        }, retryIn).unref?.();
+      }
+    }
+  }
+
+  private async cleanUp(conversationId: string, userId: string): Promise<void> {
+    const messages = await Message.find({ conversationId, userId }).select("files");
+    const files = new Map<string, StoredFile>();
+    for (const message of messages) {
+      for (const file of message.files || []) {
+        files.set(file.id, file);
+      }
+    }
+
+    // Files come first: they are found through the messages, so the
+    // messages must still be there if this step fails and is retried
+    for (const file of files.values()) {
+      if (await this.isFileStillUsed(file.id, conversationId, userId)) continue;
+      await fileUploadService.removeStoredFile(file);
+    }
+
+    await new MemoryManager(userId).deleteConversationMemories(conversationId);
+    await Message.deleteMany({ conversationId, userId });
+  }
+
+  // Uploads can be shared with another conversation's messages, an assistant or a project
+  private async isFileStillUsed(fileId: string, conversationId: string, userId: string): Promise<boolean> {
+    const [message, assistant, project] = await Promise.all([
+      Message.exists({ userId, conversationId: { $ne: conversationId }, "files.id": fileId }),
+      Assistant.exists({ userId, "files.id": fileId }),
+      Project.exists({ userId, "files.id": fileId }),
+    ]);
+    return !!(message || assistant || project);
+  }
+}
+
+declare global {
+  var deletionService: DeletionService | undefined;
+}
+
+// Keep a single instance across hot reloads in development
+export const deletionService = global.deletionService || (global.deletionService = new DeletionService());
@@ -8,6 +8,27 @@ cloudinary.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
+/**
+ * Public ID and resource type of a Cloudinary delivery URL such as
+ * https://res.cloudinary.com/<cloud>/raw/upload/v123/chatgpt-clone/report.pdf.
+ * Image and video public IDs leave out the format extension; raw ones keep
+ * the name as uploaded.
+ */
+function parseCloudinaryUrl(cloudinaryUrl: string): { publicId: string; resourceType: string } {
+  const { pathname } = new URL(cloudinaryUrl);
+  const match = pathname.match(/\/([^/]+)\/upload\/(?:.*?\/)?v\d+\/(.+)$/) || pathname.match(/\/([^/]+)\/upload\/(.+)$/);
+  if (!match) {
+    throw new Error(`Not a Cloudinary upload URL: ${cloudinaryUrl}`);
+  }
+
+  const resourceType = match[1];
+  const path = decodeURIComponent(match[2]);
+  return {
+    resourceType,
+    publicId: resourceType === 'raw' ? path : path.replace(/\.[^/.]+$/, ''),
+  };
+}
+
 export interface FileUploadResult {
   id: string;
   name: string;
@@ -547,34 +568,43 @@ class FileUploadService {
    */
   async deleteFile(file: FileUploadResult): Promise<void> {
     try {
-      // Delete from Cloudinary
-      if (file.cloudinaryUrl) {
-        const url = new URL(file.cloudinaryUrl);
-        const pathParts = url.pathname.split('/');
-        const publicId = pathParts.slice(7).join('/').replace(/\.[^/.]+$/, '');
-        
-        await cloudinary.uploader.destroy(publicId);
-      }
-
-      // Delete from Uploadcare (only if configured and file has uploadcareId)
-      if (file.uploadcareId && process.env.NEXT_PUBLIC_UPLOADCARE_PUBLIC_KEY && process.env.UPLOADCARE_SECRET_KEY) {
-        try {
-          await fetch(`https://api.uploadcare.com/files/${file.uploadcareId}/`, {
-            method: 'DELETE',
-            headers: {
-              'Authorization': `Uploadcare.Simple ${process.env.NEXT_PUBLIC_UPLOADCARE_PUBLIC_KEY}:${process.env.UPLOADCARE_SECRET_KEY}`,
-            },
-          });
-        } catch (error) {
-          console.error('Uploadcare deletion error:', error);
-        }
-      }
+      await this.removeStoredFile(file);
     } catch (error) {
       console.error('File deletion error:', error);
       // Don't throw - file deletion is not critical
     }
   }
 
+  /**
+   * Delete file from both Uploadcare and Cloudinary, throwing if either
+   * service fails so the caller can retry. Files that are already gone
+   * count as deleted.
+   */
+  async removeStoredFile(file: Pick<FileUploadResult, 'cloudinaryUrl' | 'uploadcareId'>): Promise<void> {
+    // Delete from Cloudinary
+    if (file.cloudinaryUrl) {
+      const { publicId, resourceType } = parseCloudinaryUrl(file.cloudinaryUrl);
+
+      const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, invalidate: true });
+      if (result?.result !== 'ok' && result?.result !== 'not found') {
+        throw new Error(`Cloudinary deletion failed: ${result?.result || 'no result'}`);
+      }
+    }
+
+    // Delete from Uploadcare (only if configured and file has uploadcareId)
+    if (file.uploadcareId && process.env.NEXT_PUBLIC_UPLOADCARE_PUBLIC_KEY && process.env.UPLOADCARE_SECRET_KEY) {
+      const response = await fetch(`https://api.uploadcare.com/files/${file.uploadcareId}/`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Uploadcare.Simple ${process.env.NEXT_PUBLIC_UPLOADCARE_PUBLIC_KEY}:${process.env.UPLOADCARE_SECRET_KEY}`,
+        },
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Uploadcare deletion failed: ${response.status}`);
+      }
+    }
+  }
+
   /**
    * Get optimized delivery URL for Cloudinary
    */
@@ -0,0 +1,279 @@
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, Message } from "@/lib/db/models";
+import type { FinishReason } from "@/lib/ai/types";
+
+// Runs assistant generations independently of the HTTP request that started
+// them. Events are buffered per messageId so a client can reattach after a
+// reload or network drop and replay what it missed via SSE `Last-Event-ID`.
+// Buffers live in this server's memory, so reattaching only works against
+// the same instance; anything else falls back to the text saved in MongoDB.
+
+export type GenerationStatus = "streaming" | "completed" | "stopped" | "error";
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// How long finished generations stay buffered for clients that reconnect late
+const RETENTION_MS = 5 * 60 * 1000;
+
+// How often partial text is written to MongoDB while streaming
+const FLUSH_INTERVAL_MS = 2000;
+
+interface GenerationEvent {
+  id: number;
+  data: Record<string, any>;
+}
+
+interface Generation {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  content: string;
+  status: GenerationStatus;
+  finishReason?: FinishReason;
+  events: GenerationEvent[];
+  // Id of the last event pushed; carried over when a response is continued
+  lastEventId: number;
+  listeners: Set<(event: GenerationEvent) => void>;
+  abortController: AbortController;
+}
+
+export interface StartGenerationOptions {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  // Payload of the initial `metadata` event
+  metadata: Record<string, any>;
+  generate: (abortSignal: AbortSignal) => AsyncGenerator<string, FinishReason | undefined>;
+  // Existing text the new chunks are appended to (continuing a response)
+  initialContent?: string;
+  // Runs after a response completes normally and its `done` event is sent (e.g. memory storage)
+  onComplete?: (fullResponse: string) => Promise<void>;
+}
+
+function isFinalEvent(event: GenerationEvent): boolean {
+  return event.data.type === "done" || event.data.type === "error";
+}
+
+export function formatSSEEvent(data: Record<string, any>, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+}
+
+class GenerationService {
+  private generations = new Map<string, Generation>();
+
+  /**
+   * Start a generation in the background and return an SSE stream following it.
+   * Closing the stream does not stop the generation; use stop() for that.
+   */
+  start(options: StartGenerationOptions): ReadableStream {
+    // Continuing a response runs again under the same messageId. Keep counting
+    // from the earlier run so a client resuming with its Last-Event-ID still
+    // gets the new events.
+    const previous = this.generations.get(options.messageId);
+    const generation: Generation = {
+      messageId: options.messageId,
+      conversationId: options.conversationId,
+      userId: options.userId,
+      content: options.initialContent || "",
+      status: "streaming",
+      events: [],
+      lastEventId: previous?.lastEventId ?? 0,
+      listeners: new Set(),
+      abortController: new AbortController(),
+    };
+    this.generations.set(options.messageId, generation);
+
+    this.push(generation, { type: "metadata", initialContent: generation.content, ...options.metadata });
+    void this.run(generation, options);
+
+    return this.subscribe(options.messageId, options.userId)!;
+  }
+
+  /**
+   * Open an SSE stream for a buffered generation, replaying events after lastEventId.
+   * Returns null if the generation is not buffered on this server.
+   */
+  subscribe(messageId: string, userId: string, lastEventId: number = 0): ReadableStream | null {
+    const generation = this.generations.get(messageId);
+    if (!generation || generation.userId !== userId) {
+      return null;
+    }
+
+    const encoder = new TextEncoder();
+    let listener: ((event: GenerationEvent) => void) | null = null;
+
+    return new ReadableStream({
+      start(controller) {
+        let closed = false;
+
+        const send = (event: GenerationEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(formatSSEEvent(event.data, event.id)));
+          } catch {
+            // The client has gone away; the generation keeps running
+          }
+          if (isFinalEvent(event)) {
+            closed = true;
+            if (listener) generation.listeners.delete(listener);
+            try {
+              controller.close();
+            } catch {
+              // Already closed by a cancelled client
+            }
+          }
+        };
+
+        // Replay what the client missed, then follow live events
+        for (const event of generation.events) {
+          if (event.id > lastEventId) {
+            send(event);
+          }
+        }
+
+        if (!closed) {
+          listener = send;
+          generation.listeners.add(listener);
+        }
+      },
+      cancel() {
+        if (listener) generation.listeners.delete(listener);
+      },
+    });
+  }
+
+  /**
+   * Stop a running generation; the partial text is kept with status "stopped".
+   */
+  stop(messageId: string, userId: string): boolean {
+    const generation = this.generations.get(messageId);
+    if (!generation || generation.userId !== userId || generation.status !== "streaming") {
+      return false;
+    }
+    generation.abortController.abort();
+    return true;
+  }
+
+  isRunning(messageId: string): boolean {
+    return this.generations.get(messageId)?.status === "streaming";
+  }
+
+  private push(generation: Generation, data: Record<string, any>) {
+    const event = { id: ++generation.lastEventId, data };
+    generation.events.push(event);
+    for (const listener of Array.from(generation.listeners)) {
+      listener(event);
+    }
+  }
+
+  private async persist(generation: Generation) {
+    await connectDB();
+    await Message.updateOne(
+      { _id: generation.messageId, userId: generation.userId },
+      {
+        $set: {
+          content: generation.content,
+          "metadata.status": generation.status,
+          "metadata.finishReason": generation.finishReason,
+        },
+      }
+    );
+  }
+
+  private async run(generation: Generation, { generate, onComplete }: StartGenerationOptions) {
+    const signal = generation.abortController.signal;
+    let lastFlush = Date.now();
+
+    try {
+      // Stream the AI response
+      // Iterate by hand so the generator's return value (finish reason) is kept
+      const stream = generate(signal);
+      while (true) {
+        const next = await stream.next();
+        if (next.done) {
+          generation.finishReason = next.value;
+          break;
+        }
+        if (signal.aborted) {
+          await stream.return(undefined);
+          break;
+        }
+        const chunk = next.value;
+        generation.content += chunk;
+        this.push(generation, { type: "chunk", content: chunk });
+
+        // Save progress so a reload shows partial text rather than nothing
+        if (Date.now() - lastFlush > FLUSH_INTERVAL_MS) {
+          lastFlush = Date.now();
+          try {
+            await this.persist(generation);
+          } catch (flushError) {
+            console.warn("Failed to save partial response:", flushError);
+          }
+        }
+      }
+
+      generation.status = signal.aborted ? "stopped" : "completed";
+    } catch (error) {
+      if (signal.aborted) {
+        generation.status = "stopped";
+      } else {
+        console.error("Streaming error:", error);
+        generation.status = "error";
+      }
+    }
+
+    // Save whatever was generated, even if the user stopped early
+    try {
+      await this.persist(generation);
+
+      // Update conversation timestamp
+      await Conversation.updateOne(
+        { _id: generation.conversationId, userId: generation.userId },
+        { updatedAt: new Date() }
+      );
+    } catch (saveError) {
+      console.error("Failed to save assistant message:", saveError);
+    }
+
+    if (generation.status === "error") {
+      this.push(generation, { type: "error", error: "Failed to generate response" });
+    } else {
+      // Send completion signal
+      this.push(generation, {
+        type: "done",
+        fullResponse: generation.content,
+        status: generation.status,
+        finishReason: generation.finishReason,
+      });
+    }
+
+    // The final event closed the client streams, so slow follow-up work
+    // (memory extraction) doesn't keep the chat waiting
+    if (generation.status === "completed" && onComplete) {
+      try {
+        await onComplete(generation.content);
+      } catch (completeError) {
+        console.warn("Post-generation step failed:", completeError);
+      }
+    }
+
+    setTimeout(() => {
+      // A continuation may have replaced this entry under the same messageId
+      if (this.generations.get(generation.messageId) === generation) {
+        this.generations.delete(generation.messageId);
+      }
+    }, RETENTION_MS);
+  }
+}
+
+declare global {
+  var generationService: GenerationService | undefined;
+}
+
+// Keep a single instance across hot reloads in development
+export const generationService = global.generationService || (global.generationService = new GenerationService());
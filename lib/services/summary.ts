@@ -0,0 +1,186 @@
+import connectDB from "@/lib/db/mongodb";
+import { Conversation, type IConversation, type IMessage } from "@/lib/db/models";
+import {
+  countTextTokens,
+  manageContextWindow,
+  type ContextWindowOptions,
+  type ContextWindowResult,
+} from "@/lib/ai/context";
+import { toMultimodalMessages } from "@/lib/ai/messages";
+import type { ChatProvider, ModelSettings, MultimodalMessage } from "@/lib/ai/types";
+
+// Keeps long conversations coherent: turns that no longer fit the context
+// window are folded into a running summary instead of being forgotten. The
+// summary is cached on the conversation together with the IDs it covers, so
+// it is only extended when more turns fall out of the window and is rebuilt
+// when the active path moves to another branch.
+
+// Upper bound on the summary length, reserved in the prompt budget
+const SUMMARY_MAX_TOKENS = 800;
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a conversation between a user and an AI assistant.
+Update the summary with the new turns. Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries.
+Write in the third person ("The user asked...") and reply with the summary only.`;
+
+export interface BuildContextOptions {
+  conversation: IConversation;
+  // Messages on the active path, oldest first
+  history: IMessage[];
+  // Messages appended after the history (e.g. a continue instruction)
+  extraMessages?: MultimodalMessage[];
+  chatSettings: ModelSettings;
+  chatProvider: ChatProvider;
+  contextWindow?: number;
+  context?: string;
+  // Sent first as a system message (custom instructions)
+  systemPrompt?: string;
+}
+
+export function summaryCoversPath(summary: IConversation["summary"], pathIds: string[]): boolean {
+  return !!summary?.messageIds?.length &&
+    summary.messageIds.length <= pathIds.length &&
+    summary.messageIds.every((id, index) => pathIds[index] === id);
+}
+
+// Plain-text transcript of messages for the summarizer; images are named, not sent
+function toTranscript(messages: IMessage[]): string {
+  return messages
+    .map(msg => {
+      const files = (msg.files || []).map(file => `[File: ${file.name}]`).join(" ");
+      const speaker = msg.role === "user" ? "User" : "Assistant";
+      return `${speaker}: ${msg.content}${files ? `\n${files}` : ""}`;
+    })
+    .join("\n\n");
+}
+
+class ConversationSummaryService {
+  /**
+   * Fit the active path into the model's context window. When older turns
+   * have to be dropped, they are replaced by a cached rolling summary that is
+   * injected as a system message. Falls back to plain truncation if
+   * summarizing fails.
+   */
+  async buildContext(options: BuildContextOptions): Promise<ContextWindowResult> {
+    const { conversation, history, chatSettings } = options;
+    const windowOptions: ContextWindowOptions = {
+      model: chatSettings.model,
+      contextWindow: options.contextWindow,
+      maxOutputTokens: chatSettings.maxTokens,
+      context: options.context,
+    };
+
+    // Keep each stored message next to its converted form so dropped turns map back to IDs
+    const entries = history
+      .map(msg => ({ message: msg, converted: toMultimodalMessages([msg])[0] }))
+      .filter(entry => entry.converted);
+    const systemMessages: MultimodalMessage[] = options.systemPrompt
+      ? [{ role: "system", content: options.systemPrompt }]
+      : [];
+    const messages = [
+      ...systemMessages,
+      ...entries.map(entry => entry.converted),
+      ...(options.extraMessages || []),
+    ];
+
+    const fitted = manageContextWindow(messages, windowOptions);
+    if (fitted.usage.droppedMessages === 0) {
+      return fitted;
+    }
+
+    // Make room for the summary, then see which turns it has to cover
+    const withSummary = manageContextWindow(messages, { ...windowOptions, reservedPromptTokens: SUMMARY_MAX_TOKENS });
+    const dropped = entries.slice(0, withSummary.usage.droppedMessages).map(entry => entry.message);
+
+    let summary: string;
+    try {
+      summary = await this.getSummary(options, dropped, withSummary.usage.contextWindow);
+    } catch (error) {
+      console.warn("Conversation summary failed, truncating instead:", error);
+      return fitted;
+    }
+
+    const summaryMessage: MultimodalMessage = {
+      role: "system",
+      content: `Summary of the earlier part of this conversation:\n${summary}`,
+    };
+
+    // The summary goes after the system prompt and before the remaining turns
+    return {
+      messages: [
+        ...withSummary.messages.slice(0, systemMessages.length),
+        summaryMessage,
+        ...withSummary.messages.slice(systemMessages.length),
+      ],
+      usage: {
+        ...withSummary.usage,
+        promptTokens: withSummary.usage.promptTokens + countTextTokens(summaryMessage.content as string, chatSettings.model),
+        summarizedMessages: dropped.length,
+      },
+    };
+  }
+
+  /**
+   * Return a summary covering exactly the given messages, reusing and
+   * extending the cached one when it covers a prefix of them
+   */
+  private async getSummary(options: BuildContextOptions, dropped: IMessage[], contextWindow: number): Promise<string> {
+    const { conversation } = options;
+    const droppedIds = dropped.map(msg => msg._id.toString());
+    const cached = conversation.summary;
+
+    let summary = "";
+    let pending = dropped;
+    if (summaryCoversPath(cached, droppedIds)) {
+      summary = cached!.content;
+      pending = dropped.slice(cached!.messageIds.length);
+      if (pending.length === 0) {
+        return summary;
+      }
+    }
+
+    // Fold the turns in batches that leave the summarizer room to read them
+    const batchBudget = Math.floor(contextWindow / 2);
+    let batch: IMessage[] = [];
+    let batchTokens = 0;
+    for (const msg of pending) {
+      const tokens = countTextTokens(msg.content || "", options.chatSettings.model);
+      if (batch.length > 0 && batchTokens + tokens > batchBudget) {
+        summary = await this.summarize(options, summary, batch);
+        batch = [];
+        batchTokens = 0;
+      }
+      batch.push(msg);
+      batchTokens += tokens;
+    }
+    if (batch.length > 0) {
+      summary = await this.summarize(options, summary, batch);
+    }
+
+    await connectDB();
+    await Conversation.updateOne(
+      { _id: conversation._id, userId: conversation.userId },
+      { $set: { summary: { content: summary, messageIds: droppedIds, updatedAt: new Date() } } }
+    );
+
+    return summary;
+  }
+
+  private async summarize(options: BuildContextOptions, previousSummary: string, turns: IMessage[]): Promise<string> {
+    const prompt = [
+      previousSummary ? `Current summary:\n${previousSummary}` : "There is no summary yet.",
+      `New turns:\n${toTranscript(turns)}`,
+    ].join("\n\n");
+
+    const summary = await options.chatProvider.generateChatResponse(
+      [
+        { role: "system", content: SUMMARY_INSTRUCTIONS },
+        { role: "user", content: prompt },
+      ],
+      { model: options.chatSettings.model, temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS }
+    );
+
+    return summary.trim() || previousSummary;
+  }
+}
+
+export const conversationSummaryService = new ConversationSummaryService();
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readEventStream, type SSEEvent } from "@/lib/sse";
+
+// A stream that delivers the given strings as separate chunks
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(...chunks: string[]): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  await readEventStream(streamOf(...chunks), event => events.push(event));
+  return events;
+}
+
+describe("readEventStream", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reads one event per data line", async () => {
+    const events = await collect('data: {"type":"text","content":"Hi"}\n\ndata: {"type":"done"}\n\n');
+
+    expect(events).toEqual([
+      { id: undefined, data: { type: "text", content: "Hi" } },
+      { id: undefined, data: { type: "done" } },
+    ]);
+  });
+
+  it("joins lines split across chunks", async () => {
+    const events = await collect('da', 'ta: {"type":"te', 'xt","content":"Hel', 'lo"}\n', '\n');
+
+    expect(events).toEqual([{ id: undefined, data: { type: "text", content: "Hello" } }]);
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('data: {"content":"héllo"}\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      },
+    });
+
+    const events: SSEEvent[] = [];
+    await readEventStream(body, event => events.push(event));
+
+    expect(events).toEqual([{ id: undefined, data: { content: "héllo" } }]);
+  });
+
+  it("ignores a trailing line without a newline", async () => {
+    const events = await collect('data: {"type":"done"}\n\ndata: {"type":"te');
+
+    expect(events).toEqual([{ id: undefined, data: { type: "done" } }]);
+  });
+
+  it("passes the id of each event and clears it at the blank line", async () => {
+    const events = await collect(
+      'id: 1\ndata: {"n":1}\n\n',
+      'id: 2\n', 'data: {"n":2}\n\n',
+      'data: {"n":3}\n\n'
+    );
+
+    expect(events).toEqual([
+      { id: "1", data: { n: 1 } },
+      { id: "2", data: { n: 2 } },
+      { id: undefined, data: { n: 3 } },
+    ]);
+  });
+
+  it("skips data lines that aren't valid JSON", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const events = await collect('data: {"n":1}\n\ndata: {not json\n\ndata: {"n":2}\n\n');
+
+    expect(events.map(event => event.data)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores comments and unknown fields", async () => {
+    const events = await collect(': keep-alive\n\nevent: message\ndata: {"n":1}\n\n');
+
+    expect(events).toEqual([{ id: undefined, data: { n: 1 } }]);
+  });
+
+  it("rethrows errors from the handler and stops reading", async () => {
+    const seen: unknown[] = [];
+    const reading = readEventStream(
+      streamOf('data: {"type":"error","error":"boom"}\n\n', 'data: {"type":"text"}\n\n'),
+      ({ data }) => {
+        seen.push(data);
+        if (data.type === "error") throw new Error(data.error);
+      }
+    );
+
+    await expect(reading).rejects.toThrow("boom");
+    expect(seen).toEqual([{ type: "error", error: "boom" }]);
+  });
+});
@@ -0,0 +1,48 @@
+// Client-side reader for the chat API's Server-Sent Events streams
+
+export interface SSEEvent {
+  id?: string;
+  data: any;
+}
+
+/**
+ * Read a text/event-stream body and call onEvent for each JSON `data:` event.
+ * Events whose data isn't valid JSON are logged and skipped; errors thrown
+ * by onEvent stop reading and are rethrown to the caller.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventId: string | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('id: ')) {
+        eventId = line.slice(4);
+      } else if (line.startsWith('data: ')) {
+        let data;
+        try {
+          data = JSON.parse(line.slice(6));
+        } catch (parseError) {
+          console.error('Error parsing SSE data:', parseError);
+          continue;
+        }
+        onEvent({ id: eventId, data });
+      } else if (line === '') {
+        // Blank line ends the event
+        eventId = undefined;
+      }
+    }
+  }
+}
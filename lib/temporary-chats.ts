@@ -0,0 +1,21 @@
+// Lifetime of temporary (incognito) conversations
+import { Message, type IConversation } from "@/lib/db/models";
+
+// The client deletes a temporary chat when it is closed; this TTL catches
+// chats that were never closed cleanly, counted from the last activity
+export const TEMPORARY_CHAT_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Push back the expiry of a temporary conversation and the messages already
+ * in it. New messages should be created with `conversation.expiresAt`.
+ * The conversation itself is not saved here.
+ */
+export async function extendTemporaryChat(conversation: IConversation): Promise<void> {
+  if (!conversation.temporary) return;
+
+  conversation.expiresAt = new Date(Date.now() + TEMPORARY_CHAT_TTL_MS);
+  await Message.updateMany(
+    { conversationId: conversation._id.toString() },
+    { expiresAt: conversation.expiresAt }
+  );
+}
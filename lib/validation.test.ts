@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseMessageFiles, parseReferenceFiles } from "@/lib/validation";
+
+const file = {
+  id: "f1",
+  name: "notes.pdf",
+  type: "application/pdf",
+  size: 1024,
+  url: "https://example.com/notes.pdf",
+  uploadedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("parseReferenceFiles", () => {
+  it("copies the known fields of each file", () => {
+    const [parsed] = parseReferenceFiles([{ ...file, analysis: { summary: "Notes" }, extra: "dropped" }]);
+
+    expect(parsed).toEqual({
+      id: "f1",
+      name: "notes.pdf",
+      type: "application/pdf",
+      size: 1024,
+      url: "https://example.com/notes.pdf",
+      cloudinaryUrl: undefined,
+      uploadcareId: undefined,
+      analysis: { text: undefined, extractedText: undefined, summary: "Notes" },
+      uploadedAt: new Date("2025-01-01T00:00:00.000Z"),
+    });
+  });
+
+  it("rejects anything but a short list", () => {
+    expect(() => parseReferenceFiles("notes.pdf")).toThrow("Attach up to 10 files");
+    expect(() => parseReferenceFiles(Array(11).fill(file))).toThrow("Attach up to 10 files");
+  });
+
+  it.each([
+    ["null", null],
+    ["a string", "https://example.com/notes.pdf"],
+    ["a list", [file]],
+    ["missing url", { ...file, url: undefined }],
+    ["non-string url", { ...file, url: 42 }],
+    ["non-string name", { ...file, name: { first: "notes" } }],
+  ])("rejects an entry that is %s", (_, entry) => {
+    expect(() => parseReferenceFiles([file, entry])).toThrow("File 2 is invalid");
+  });
+});
+
+describe("parseMessageFiles", () => {
+  it("keeps the file fields and parses the upload date", () => {
+    const analysis = { extractedData: { rows: 2 }, metadata: { pageCount: 3 } };
+
+    const [parsed] = parseMessageFiles([{ ...file, preview: "data:image/png", analysis }]);
+
+    expect(parsed).toEqual({ ...file, preview: "data:image/png", analysis, uploadedAt: new Date(file.uploadedAt) });
+  });
+
+  it("dates files without an upload date now", () => {
+    const [parsed] = parseMessageFiles([{ ...file, uploadedAt: undefined }]);
+
+    expect(parsed.uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it.each([
+    ["null", null],
+    ["a number", 3],
+    ["missing url", { ...file, url: "" }],
+    ["non-string name", { ...file, name: 7 }],
+  ])("rejects an entry that is %s", (_, entry) => {
+    expect(() => parseMessageFiles([entry])).toThrow("File 1 is invalid");
+  });
+
+  it("rejects an unreadable upload date", () => {
+    expect(() => parseMessageFiles([{ ...file, uploadedAt: "yesterday" }])).toThrow("File 1 has an invalid upload date");
+  });
+
+  it("rejects anything but a list", () => {
+    expect(() => parseMessageFiles({ 0: file })).toThrow("Attach up to 10 files");
+  });
+});
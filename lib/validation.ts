@@ -0,0 +1,70 @@
+// Request body validation shared by the API routes
+import type { IMessage, ReferenceFile } from "@/lib/db/models";
+
+type MessageFile = NonNullable<IMessage["files"]>[number];
+
+const MAX_FILES = 10;
+
+export function optionalString(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`${field} must be text`);
+  }
+  if (value.length > maxLength) {
+    throw new Error(`${field} is limited to ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isUploadedFile(value: unknown): value is Record<string, any> & { url: string; name: string } {
+  return isRecord(value) && typeof value.url === "string" && !!value.url && typeof value.name === "string";
+}
+
+// Files attached to a chat message, as returned by /api/upload
+export function parseMessageFiles(value: unknown): MessageFile[] {
+  if (!Array.isArray(value) || value.length > MAX_FILES) {
+    throw new Error(`Attach up to ${MAX_FILES} files`);
+  }
+  return value.map((file: unknown, index): MessageFile => {
+    if (!isUploadedFile(file)) {
+      throw new Error(`File ${index + 1} is invalid`);
+    }
+    const uploadedAt = file.uploadedAt ? new Date(file.uploadedAt) : new Date();
+    if (isNaN(uploadedAt.getTime())) {
+      throw new Error(`File ${index + 1} has an invalid upload date`);
+    }
+    return { ...file, uploadedAt } as MessageFile;
+  });
+}
+
+// Files come back from /api/upload on the client, so only copy the known fields
+export function parseReferenceFiles(value: unknown): ReferenceFile[] {
+  if (!Array.isArray(value) || value.length > MAX_FILES) {
+    throw new Error(`Attach up to ${MAX_FILES} files`);
+  }
+  return value.map((file: unknown, index): ReferenceFile => {
+    if (!isUploadedFile(file)) {
+      throw new Error(`File ${index + 1} is invalid`);
+    }
+    const analysis = isRecord(file.analysis) ? file.analysis : undefined;
+    return {
+      id: String(file.id),
+      name: file.name,
+      type: String(file.type),
+      size: Number(file.size) || 0,
+      url: file.url,
+      cloudinaryUrl: typeof file.cloudinaryUrl === "string" ? file.cloudinaryUrl : undefined,
+      uploadcareId: typeof file.uploadcareId === "string" ? file.uploadcareId : undefined,
+      analysis: analysis ? {
+        text: analysis.text,
+        extractedText: analysis.extractedText,
+        summary: analysis.summary,
+      } : undefined,
+      uploadedAt: file.uploadedAt ? new Date(file.uploadedAt) : new Date(),
+    };
+  });
+}